@@ -34,7 +34,7 @@ from .messages import (
 )
 
 from .client import A2gClient, ClientConfig
-from .signer import Signer, Signature
+from .signer import Signer, Signature, canonical_json
 
 __version__ = "1.1.0"
 __all__ = [
@@ -42,6 +42,7 @@ __all__ = [
     "ClientConfig",
     "Signer",
     "Signature",
+    "canonical_json",
     "A2gIntent",
     "A2gReport", 
     "A2gRegister",
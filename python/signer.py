@@ -6,11 +6,79 @@ HMAC-SHA256 signing for agent identity authentication.
 
 import hashlib
 import hmac
+import json
+import math
 import secrets
 import time
 import uuid
 from dataclasses import dataclass
-from typing import Optional
+from typing import Any, Optional
+
+
+def canonical_json(value: Any) -> str:
+    """
+    Serialize a value to canonical JSON (RFC 8785 / JCS).
+
+    Matches the TypeScript and Rust SDKs byte for byte: keys sorted by
+    UTF-16 code units, no whitespace, ECMAScript number formatting and
+    literal (unescaped) non-ASCII text. See spec/canonical-json.md.
+
+    Raises:
+        ValueError: For NaN/Infinity
+        TypeError: For values that are not JSON types
+    """
+    if value is None:
+        return "null"
+    if value is True:
+        return "true"
+    if value is False:
+        return "false"
+    if isinstance(value, int):
+        return _format_number(float(value)) if abs(value) >= 2 ** 53 else str(value)
+    if isinstance(value, float):
+        return _format_number(value)
+    if isinstance(value, str):
+        return json.dumps(value, ensure_ascii=False)
+    if isinstance(value, (list, tuple)):
+        return "[" + ",".join(canonical_json(item) for item in value) + "]"
+    if isinstance(value, dict):
+        keys = sorted(value.keys(), key=lambda k: k.encode("utf-16-be"))
+        return "{" + ",".join(
+            f"{json.dumps(k, ensure_ascii=False)}:{canonical_json(value[k])}" for k in keys
+        ) + "}"
+    raise TypeError(f"Cannot canonicalize {type(value).__name__}")
+
+
+def _format_number(value: float) -> str:
+    """Format a float like ECMAScript Number.prototype.toString"""
+    if math.isnan(value) or math.isinf(value):
+        raise ValueError("Cannot canonicalize non-finite number")
+    if value == 0:
+        return "0"
+
+    sign = "-" if value < 0 else ""
+    # repr() gives the shortest round-trip digits, like ECMAScript
+    mantissa, _, exp = repr(abs(value)).partition("e")
+    int_part, _, frac_part = mantissa.partition(".")
+    digits = (int_part + frac_part).lstrip("0")
+    exponent = (int(exp) if exp else 0) - len(frac_part)
+    stripped = digits.rstrip("0")
+    exponent += len(digits) - len(stripped)
+    digits = stripped
+
+    k = len(digits)
+    n = exponent + k  # value = 0.digits * 10^n
+    if k <= n <= 21:
+        return sign + digits + "0" * (n - k)
+    if 0 < n <= 21:
+        return sign + digits[:n] + "." + digits[n:]
+    if -6 < n <= 0:
+        return sign + "0." + "0" * (-n) + digits
+    e = n - 1
+    e_str = ("+" if e >= 0 else "-") + str(abs(e))
+    if k == 1:
+        return sign + digits + "e" + e_str
+    return sign + digits[0] + "." + digits[1:] + "e" + e_str
 
 
 @dataclass
@@ -58,14 +126,12 @@ class Signer:
         Returns:
             Signature with timestamp, nonce, and hash
         """
-        import json
-        
         ts = timestamp or str(int(time.time() * 1000))
         nc = nonce or str(uuid.uuid4())
         
-        # Normalize message to string
+        # Normalize message to canonical JSON (RFC 8785)
         if isinstance(message, dict):
-            msg_str = json.dumps(message, sort_keys=True, separators=(',', ':'))
+            msg_str = canonical_json(message)
         else:
             msg_str = str(message)
         
@@ -141,10 +207,8 @@ class Signer:
         Returns:
             Hex-encoded HMAC-SHA256 hash
         """
-        import json
-        
         if isinstance(message, dict):
-            msg_str = json.dumps(message, sort_keys=True, separators=(',', ':'))
+            msg_str = canonical_json(message)
         else:
             msg_str = str(message)
         
@@ -0,0 +1,40 @@
+"""
+Cross-SDK conformance: canonical JSON and HMAC signatures against
+spec/canonical-json-vectors.json, the same vectors the TypeScript and
+Rust SDKs run.
+"""
+
+import json
+import sys
+from pathlib import Path
+
+import pytest
+
+SDK_DIR = Path(__file__).resolve().parents[1]
+sys.path.insert(0, str(SDK_DIR))
+
+from signer import Signer, canonical_json  # noqa: E402
+
+VECTORS = json.loads(
+    (SDK_DIR.parent / "spec" / "canonical-json-vectors.json").read_text(encoding="utf-8")
+)
+
+# The Python signer is HMAC-only; Ed25519 vectors are covered by the other SDKs
+HMAC_VECTORS = [v for v in VECTORS["signatures"] if v["algorithm"] == "hmac-sha256"]
+
+
+@pytest.mark.parametrize("vector", VECTORS["canonicalization"], ids=lambda v: v["name"])
+def test_canonicalization(vector):
+    assert canonical_json(json.loads(vector["input"])) == vector["canonical"]
+
+
+@pytest.mark.parametrize("vector", HMAC_VECTORS, ids=lambda v: v["name"])
+def test_hmac_signature(vector):
+    signature = Signer.sign(
+        vector["signingKey"],
+        vector["message"],
+        timestamp=vector["timestamp"],
+        nonce=vector["nonce"],
+    )
+
+    assert signature.hash == vector["hash"]
\ No newline at end of file
@@ -50,7 +50,8 @@ impl Signer {
         
         let payload = format!("{}:{}:{}", timestamp, nonce, message_str);
 
-        let mut mac = HmacSha256::new_from_slice(hex::decode(signing_key)?.as_slice())
+        // Keyed with the UTF-8 bytes of the hex key string, like the TS and Python SDKs
+        let mut mac = HmacSha256::new_from_slice(signing_key.as_bytes())
             .map_err(|_| "Invalid key length")?;
         mac.update(payload.as_bytes());
         let result = mac.finalize();
@@ -92,33 +93,110 @@ impl Signer {
         sig_hash_bytes.ct_eq(&expected_hash_bytes).into()
     }
 
+    /// Canonical form of a message: strings are signed as-is, everything
+    /// else as canonical JSON (RFC 8785).
     fn stable_stringify(message: &serde_json::Value) -> Result<String, Box<dyn std::error::Error>> {
-        fn normalize(value: &serde_json::Value) -> serde_json::Value {
-            match value {
-                serde_json::Value::Object(map) => {
-                    let mut keys: Vec<_> = map.keys().collect();
-                    keys.sort();
-                    let mut ordered = serde_json::Map::new();
-                    for key in keys {
-                        if let Some(v) = map.get(key) {
-                            ordered.insert(key.clone(), normalize(v));
-                        }
-                    }
-                    serde_json::Value::Object(ordered)
+        match message {
+            serde_json::Value::String(s) => Ok(s.clone()),
+            _ => canonical_json(message),
+        }
+    }
+}
+
+/// Serialize a value to canonical JSON (RFC 8785 / JCS).
+///
+/// Matches the TypeScript and Python SDKs byte for byte: keys sorted by
+/// UTF-16 code units, no whitespace, ECMAScript number formatting and
+/// literal (unescaped) non-ASCII text. See spec/canonical-json.md.
+pub fn canonical_json(value: &serde_json::Value) -> Result<String, Box<dyn std::error::Error>> {
+    let mut out = String::new();
+    write_canonical(value, &mut out)?;
+    Ok(out)
+}
+
+fn write_canonical(value: &serde_json::Value, out: &mut String) -> Result<(), Box<dyn std::error::Error>> {
+    match value {
+        serde_json::Value::Null => out.push_str("null"),
+        serde_json::Value::Bool(b) => out.push_str(if *b { "true" } else { "false" }),
+        serde_json::Value::Number(n) => out.push_str(&format_number(n)?),
+        serde_json::Value::String(s) => out.push_str(&serde_json::to_string(s)?),
+        serde_json::Value::Array(items) => {
+            out.push('[');
+            for (i, item) in items.iter().enumerate() {
+                if i > 0 {
+                    out.push(',');
                 }
-                serde_json::Value::Array(items) => {
-                    serde_json::Value::Array(items.iter().map(normalize).collect())
+                write_canonical(item, out)?;
+            }
+            out.push(']');
+        }
+        serde_json::Value::Object(map) => {
+            let mut keys: Vec<&String> = map.keys().collect();
+            keys.sort_by(|a, b| a.encode_utf16().cmp(b.encode_utf16()));
+            out.push('{');
+            for (i, key) in keys.iter().enumerate() {
+                if i > 0 {
+                    out.push(',');
                 }
-                _ => value.clone(),
+                out.push_str(&serde_json::to_string(key)?);
+                out.push(':');
+                write_canonical(&map[key.as_str()], out)?;
             }
+            out.push('}');
         }
+    }
+    Ok(())
+}
 
-        let normalized = normalize(message);
-        match normalized {
-            serde_json::Value::String(s) => Ok(s),
-            _ => Ok(serde_json::to_string(&normalized)?),
+/// Format a number like ECMAScript Number.prototype.toString
+fn format_number(n: &serde_json::Number) -> Result<String, Box<dyn std::error::Error>> {
+    const MAX_SAFE: u64 = 1 << 53;
+    if let Some(i) = n.as_i64() {
+        if i.unsigned_abs() < MAX_SAFE {
+            return Ok(i.to_string());
+        }
+    } else if let Some(u) = n.as_u64() {
+        if u < MAX_SAFE {
+            return Ok(u.to_string());
         }
     }
+
+    let f = n.as_f64().ok_or("Invalid number")?;
+    if !f.is_finite() {
+        return Err("Cannot canonicalize non-finite number".into());
+    }
+    if f == 0.0 {
+        return Ok("0".to_string());
+    }
+
+    // `{:e}` yields the shortest round-trip digits as d.ddde±x
+    let scientific = format!("{:e}", f.abs());
+    let (mantissa, exponent) = scientific.split_once('e').ok_or("Invalid number")?;
+    let exponent: i32 = exponent.parse()?;
+    let digits: String = mantissa.chars().filter(|c| *c != '.').collect();
+    let digits = digits.trim_end_matches('0');
+
+    let k = digits.len() as i32;
+    let point = exponent + 1; // value = 0.digits * 10^point
+    let sign = if f < 0.0 { "-" } else { "" };
+
+    let body = if k <= point && point <= 21 {
+        format!("{}{}", digits, "0".repeat((point - k) as usize))
+    } else if 0 < point && point <= 21 {
+        format!("{}.{}", &digits[..point as usize], &digits[point as usize..])
+    } else if -6 < point && point <= 0 {
+        format!("0.{}{}", "0".repeat((-point) as usize), digits)
+    } else {
+        let e = point - 1;
+        let e_str = if e >= 0 { format!("+{}", e) } else { e.to_string() };
+        if k == 1 {
+            format!("{}e{}", digits, e_str)
+        } else {
+            format!("{}.{}e{}", &digits[..1], &digits[1..], e_str)
+        }
+    };
+
+    Ok(format!("{}{}", sign, body))
 }
 
 pub struct AeonDID {
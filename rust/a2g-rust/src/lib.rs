@@ -5,7 +5,7 @@
 pub mod did;
 pub mod protocol;
 
-pub use did::{Signer, Signature, AeonDID};
+pub use did::{Signer, Signature, AeonDID, canonical_json};
 pub use protocol::*;
 
 // Re-export common types
@@ -0,0 +1,421 @@
+/**
+ * A2gClient against MockAeonEngine: verdicts, invalid frames, reconnects,
+ * batches and governed tools.
+ */
+
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { once } from "events";
+import { A2gClient } from "./client.js";
+import {
+    A2gAuthError,
+    A2gConnectionError,
+    A2gDeniedError,
+    A2gProtocolError,
+    A2gRpcError,
+    A2gTimeoutError,
+} from "./errors.js";
+import { silentLogger } from "./logging.js";
+import { MockAeonEngine } from "./mock-engine.js";
+import { A2G_ERROR_CODES } from "./protocol.js";
+import type { A2gClientConfig } from "./types.js";
+
+const AGENT_DID = "did:aeon:test-agent";
+const FAST_RECONNECT = { maxAttempts: 3, baseDelayMs: 10, maxDelayMs: 20, jitterMs: 0 };
+
+describe("A2gClient with MockAeonEngine", () => {
+    let engine: MockAeonEngine;
+    let client: A2gClient | undefined;
+
+    beforeEach(async () => {
+        engine = new MockAeonEngine();
+        await engine.start();
+    });
+
+    afterEach(async () => {
+        client?.disconnect();
+        client = undefined;
+        await engine.stop();
+    });
+
+    async function connect(config: A2gClientConfig = {}): Promise<A2gClient> {
+        client = new A2gClient(engine.url, AGENT_DID, { logger: silentLogger, ...config });
+        await client.connect();
+        return client;
+    }
+
+    describe("verdicts", () => {
+        it("returns scripted verdicts and records the intent", async () => {
+            const client = await connect();
+            engine.onTool("delete_file", { verdict: "DENIED", risk_assessment: { score: 90, level: "HIGH" } });
+
+            const approved = await client.requestIntent("read_file", { path: "/tmp/a" });
+            const denied = await client.requestIntent("delete_file", { path: "/tmp/a" });
+
+            assert.equal(approved.result?.verdict, "APPROVED");
+            assert.equal(denied.result?.verdict, "DENIED");
+            assert.equal(denied.result?.risk_assessment.level, "HIGH");
+            assert.deepEqual(engine.intents.map(i => i.params.tool), ["read_file", "delete_file"]);
+            assert.equal(denied.result?.intent_id, engine.intents[1].params.intent_id);
+        });
+
+        it("signs the caller context into the intent", async () => {
+            const client = await connect({ signingKey: "a".repeat(64) });
+
+            await client.requestIntent("read_file", {}, { sessionId: "task-1", reasoning: "asked by user" });
+
+            const context = engine.intents[0].params.context;
+            assert.equal(context?.session_id, "task-1");
+            assert.equal(context?.reasoning, "asked by user");
+            assert.ok(context?.signature);
+        });
+
+        it("throws engine errors in strict mode", async () => {
+            const client = await connect({ strict: true });
+            engine.enqueue({ error: { code: A2G_ERROR_CODES.INTERNAL_ERROR, message: "engine exploded" } });
+
+            await assert.rejects(client.requestIntent("read_file", {}), A2gRpcError);
+        });
+
+        it("times out when the engine never answers", async () => {
+            const client = await connect();
+            engine.enqueue({ noResponse: true });
+
+            await assert.rejects(client.requestIntent("read_file", {}, { timeoutMs: 50 }), A2gTimeoutError);
+        });
+
+        it("rejects at once when the signal is already aborted", async () => {
+            const client = await connect();
+
+            await assert.rejects(client.requestIntent("read_file", {}, { signal: AbortSignal.abort() }));
+            assert.equal(engine.intents.length, 0);
+        });
+    });
+
+    describe("invalid frames", () => {
+        it("reports unparseable and non-object frames and keeps working", async () => {
+            const client = await connect();
+            const errors: Error[] = [];
+            client.on("invalidMessage", (error: Error) => errors.push(error));
+
+            engine.broadcast("{not json");
+            engine.broadcast("null");
+            engine.broadcast("[null, 3]");
+            const verdict = await client.requestIntent("read_file", {});
+
+            assert.equal(verdict.result?.verdict, "APPROVED");
+            assert.equal(errors.length, 4);
+            assert.ok(errors.every(error => error instanceof A2gProtocolError));
+            assert.equal((errors[0] as A2gProtocolError).code, A2G_ERROR_CODES.PARSE_ERROR);
+        });
+
+        it("reports responses to unknown requests and frames without a method or id", async () => {
+            const client = await connect();
+            const frames: unknown[] = [];
+            client.on("invalidMessage", (_error: Error, frame: unknown) => frames.push(frame));
+
+            engine.broadcast({ jsonrpc: "2.0", id: "never-sent", result: {} });
+            engine.broadcast({ jsonrpc: "2.0", result: {} });
+            engine.broadcast({ jsonrpc: "2.0", method: 42, id: "x" });
+            await client.requestIntent("read_file", {});
+
+            assert.deepEqual(frames, [
+                { jsonrpc: "2.0", id: "never-sent", result: {} },
+                { jsonrpc: "2.0", result: {} },
+                { jsonrpc: "2.0", method: 42, id: "x" },
+            ]);
+        });
+
+        it("ignores pushes with invalid params", async () => {
+            const client = await connect({ localPolicy: { allow: ["read_file"] } });
+            const errors: A2gProtocolError[] = [];
+            const events: string[] = [];
+            client.on("invalidMessage", (error: A2gProtocolError) => errors.push(error));
+            for (const event of ["policyUpdate", "capabilityRevoked", "forcedDisconnect"]) {
+                client.on(event, () => events.push(event));
+            }
+
+            engine.notify("g2a/policy_update", { local_policy: { allow: "*", deny: [1] } });
+            engine.notify("g2a/capability_revoked", { tool: 7 });
+            engine.notify("g2a/disconnect", { reconnect: "yes" });
+            await engine.request("g2a/ping");
+
+            assert.deepEqual(errors.map(error => error.message), [
+                "A2G error -32602: Invalid g2a/policy_update: local_policy.allow: expected an array; local_policy.deny[0]: expected a string",
+                "A2G error -32602: Invalid g2a/capability_revoked: tool: expected a non-empty string",
+                "A2G error -32602: Invalid g2a/disconnect: reconnect: expected a boolean",
+            ]);
+            assert.deepEqual(events, []);
+            assert.equal(client.state, "open");
+        });
+    });
+
+    describe("connection", () => {
+        it("surfaces rejected credentials instead of deciding locally", async () => {
+            engine.refuseConnections(401);
+            client = new A2gClient(engine.url, AGENT_DID, {
+                logger: silentLogger,
+                localPolicy: { allow: ["*"] },
+            });
+
+            await assert.rejects(client.requestIntent("read_file", {}), A2gAuthError);
+        });
+
+        it("replays an in-flight intent after the connection drops", async () => {
+            const client = await connect({ replayInFlight: true, reconnect: FAST_RECONNECT });
+            engine.enqueue({ drop: true });
+
+            const verdict = await client.requestIntent("read_file", {});
+
+            assert.equal(verdict.result?.verdict, "APPROVED");
+            assert.equal(engine.handshakes.length, 2);
+            assert.equal(engine.intents.length, 2);
+            assert.equal(engine.intents[0].params.intent_id, engine.intents[1].params.intent_id);
+        });
+
+        it("fails the intent on a drop without replayInFlight, then reconnects", async () => {
+            const client = await connect({ reconnect: FAST_RECONNECT });
+            engine.enqueue({ drop: true });
+
+            await assert.rejects(client.requestIntent("read_file", {}));
+            await once(client, "open");
+            const verdict = await client.requestIntent("read_file", {});
+            assert.equal(verdict.result?.verdict, "APPROVED");
+        });
+
+        it("gives up after maxAttempts reconnects", async () => {
+            const client = await connect({ reconnect: FAST_RECONNECT });
+            const failed = once(client, "failed");
+
+            engine.refuseConnections(503);
+            engine.dropConnections();
+            await failed;
+
+            assert.equal(client.state, "failed");
+            assert.equal(client.getMetrics().reconnects_exhausted, 1);
+        });
+    });
+
+    describe("batches", () => {
+        it("returns verdicts in call order, including delayed answers", async () => {
+            const client = await connect();
+            engine.onTool("slow", { verdict: "ESCALATE", delayMs: 30 });
+            engine.onTool("delete_file", { verdict: "DENIED" });
+
+            const verdicts = await client.requestIntents([
+                { tool: "slow", args: {} },
+                { tool: "read_file", args: {} },
+                { tool: "delete_file", args: {} },
+            ]);
+
+            assert.deepEqual(verdicts.map(v => v.result?.verdict), ["ESCALATE", "APPROVED", "DENIED"]);
+            assert.deepEqual(
+                verdicts.map(v => v.result?.intent_id),
+                engine.intents.map(i => i.params.intent_id)
+            );
+        });
+
+        it("turns a timed-out entry into an error verdict", async () => {
+            const client = await connect();
+            engine.onTool("stuck", { noResponse: true });
+
+            const verdicts = await client.requestIntents(
+                [{ tool: "read_file", args: {} }, { tool: "stuck", args: {} }],
+                { timeoutMs: 50 }
+            );
+
+            assert.equal(verdicts[0].result?.verdict, "APPROVED");
+            assert.equal(verdicts[1].id, engine.intents[1].id);
+            assert.ok(verdicts[1].error);
+        });
+
+        it("rejects when every entry fails", async () => {
+            const client = await connect();
+            engine.onTool("stuck", { noResponse: true });
+
+            await assert.rejects(
+                client.requestIntents([{ tool: "stuck", args: {} }, { tool: "stuck", args: {} }], { timeoutMs: 50 }),
+                A2gTimeoutError
+            );
+        });
+    });
+
+    describe("govern", () => {
+        it("runs approved tools and reports success", async () => {
+            const client = await connect();
+            const double = client.govern("double", async (args: { n: number }) => args.n * 2);
+
+            assert.equal(await double({ n: 21 }), 42);
+
+            const [report] = await engine.waitForReports(1);
+            assert.equal(report.params.status, "SUCCESS");
+            assert.equal(report.params.intent_id, engine.intents[0].params.intent_id);
+        });
+
+        it("throws A2gDeniedError without running denied tools", async () => {
+            const client = await connect();
+            engine.onTool("delete_file", { verdict: "DENIED" });
+            let ran = false;
+            const deleteFile = client.govern("delete_file", async () => {
+                ran = true;
+            });
+
+            await assert.rejects(deleteFile({ path: "/etc/passwd" }), A2gDeniedError);
+            assert.equal(ran, false);
+        });
+
+        it("reports TIMEOUT when the tool overruns", async () => {
+            const client = await connect();
+            const slow = client.govern(
+                "slow",
+                () => new Promise((resolve) => setTimeout(resolve, 500)),
+                { timeoutMs: 20 }
+            );
+
+            await assert.rejects(slow({}), A2gTimeoutError);
+
+            const [report] = await engine.waitForReports(1);
+            assert.equal(report.params.status, "TIMEOUT");
+        });
+    });
+
+    describe("server-initiated messages", () => {
+        it("answers a request with the handler's result", async () => {
+            const client = await connect();
+            client.onRequest("g2a/describe", (params) => ({ tools: ["read_file"], echo: params }));
+
+            const response = await engine.request("g2a/describe", { verbose: true });
+            const ping = await engine.request("g2a/ping");
+
+            assert.deepEqual(response.result, { tools: ["read_file"], echo: { verbose: true } });
+            assert.deepEqual(ping.result, {});
+        });
+
+        it("answers a throwing handler with a JSON-RPC error", async () => {
+            const client = await connect();
+            client.onRequest("g2a/crash", () => {
+                throw new Error("handler failed");
+            });
+            client.onRequest("g2a/refuse", async () => {
+                throw new A2gRpcError(A2G_ERROR_CODES.UNAUTHORIZED, "not for you", { hint: "ask nicely" });
+            });
+
+            const crashed = await engine.request("g2a/crash");
+            const refused = await engine.request("g2a/refuse");
+
+            assert.deepEqual(crashed.error, { code: A2G_ERROR_CODES.INTERNAL_ERROR, message: "handler failed" });
+            assert.deepEqual(refused.error, {
+                code: A2G_ERROR_CODES.UNAUTHORIZED,
+                message: "not for you",
+                data: { hint: "ask nicely" },
+            });
+        });
+
+        it("answers an unknown method with METHOD_NOT_FOUND", async () => {
+            await connect();
+
+            const response = await engine.request("g2a/unknown");
+
+            assert.equal(response.error?.code, A2G_ERROR_CODES.METHOD_NOT_FOUND);
+            assert.equal(response.result, undefined);
+        });
+
+        it("emits policy updates and caches the local policy", async () => {
+            const client = await connect();
+            const notified = once(client, "notification");
+            const updated = once(client, "policyUpdate");
+
+            engine.notify("g2a/policy_update", { policy_version: "7", local_policy: { allow: ["read_file"] } });
+
+            assert.deepEqual(await notified, ["g2a/policy_update", { policy_version: "7", local_policy: { allow: ["read_file"] } }]);
+            assert.equal((await updated)[0].policy_version, "7");
+        });
+
+        it("aborts matching governed tools on g2a/capability_revoked", async () => {
+            const client = await connect();
+            let started!: () => void;
+            const running = new Promise<void>((resolve) => (started = resolve));
+            const slow = client.govern("slow_tool", (_args: object, context) => new Promise((_, reject) => {
+                context.signal.addEventListener("abort", () => reject(context.signal.reason));
+                started();
+            }));
+            const call = slow({});
+            await running;
+            const revoked = once(client, "capabilityRevoked");
+
+            engine.notify("g2a/capability_revoked", { tool: "slow_tool", reason: "policy change" });
+
+            assert.deepEqual((await revoked)[0], { tool: "slow_tool", reason: "policy change" });
+            await assert.rejects(call, /revoked approval for slow_tool: policy change/);
+        });
+
+        it("closes without reconnecting on g2a/disconnect", async () => {
+            const client = await connect({ reconnect: FAST_RECONNECT });
+            const forced = once(client, "forcedDisconnect");
+            const closed = once(client, "closed");
+
+            engine.notify("g2a/disconnect", { reason: "maintenance" });
+
+            assert.deepEqual((await forced)[0], { reason: "maintenance" });
+            await closed;
+            assert.equal(client.state, "closed");
+            assert.equal(engine.handshakes.length, 1);
+        });
+    });
+
+    describe("escalations", () => {
+        async function escalate(client: A2gClient): Promise<string> {
+            engine.onTool("wire_transfer", { verdict: "ESCALATE" });
+            const verdict = await client.requestIntent("wire_transfer", { amount: 10_000 });
+            return verdict.result!.intent_id;
+        }
+
+        it("resolves on a pushed g2a/resolution", async () => {
+            const client = await connect();
+            const intentId = await escalate(client);
+
+            const resolution = client.awaitResolution(intentId);
+            engine.resolveEscalation(intentId, { verdict: "APPROVED", resolved_by: "reviewer-1" });
+
+            assert.equal((await resolution).verdict, "APPROVED");
+            assert.equal((await resolution).resolved_by, "reviewer-1");
+        });
+
+        it("keeps a resolution pushed before anyone awaits it", async () => {
+            const client = await connect();
+            const intentId = await escalate(client);
+            engine.resolveEscalation(intentId, { verdict: "DENIED" });
+            await engine.request("g2a/ping", {});
+
+            const resolution = await client.awaitResolution(intentId, 50);
+
+            assert.equal(resolution.verdict, "DENIED");
+        });
+
+        it("times out and forgets the escalation", async () => {
+            const client = await connect();
+            const intentId = await escalate(client);
+
+            await assert.rejects(client.awaitResolution(intentId, 50), A2gTimeoutError);
+
+            // A late push is no longer kept for the forgotten intent
+            engine.resolveEscalation(intentId, { verdict: "APPROVED" });
+            await engine.request("g2a/ping", {});
+            await assert.rejects(client.awaitResolution(intentId, 50), A2gTimeoutError);
+        });
+
+        it("rejects waiters and forgets escalations on disconnect", async () => {
+            const client = await connect();
+            const intentId = await escalate(client);
+            engine.resolveEscalation(intentId, { verdict: "APPROVED" });
+            await engine.request("g2a/ping", {});
+            const otherId = await escalate(client);
+            const waiting = client.awaitResolution(otherId);
+
+            client.disconnect();
+
+            await assert.rejects(waiting, A2gConnectionError);
+            await assert.rejects(client.awaitResolution(intentId, 50), A2gTimeoutError);
+        });
+    });
+});
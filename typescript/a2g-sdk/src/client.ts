@@ -1,201 +1,1045 @@
-import WebSocket from "ws";
+import { EventEmitter } from "events";
 import { v4 as uuidv4 } from "uuid";
 import { Signer } from "@aeon/did-sdk";
-import type { A2gIntent, A2gReport, G2aVerdict, A2gClientConfig } from "./types.js";
+import type {
+    A2gIntent,
+    A2gIntentCall,
+    A2gIntentOptions,
+    A2gReport,
+    A2gRequestHandler,
+    A2gResponse,
+    A2gStatusRequest,
+    G2aVerdict,
+    G2aVerdictResult,
+    G2aResolutionParams,
+    G2aStatusResponse,
+    G2aCapabilityRevokedParams,
+    G2aDisconnectParams,
+    G2aNotification,
+    G2aRequest,
+    A2gClientConfig,
+    A2gConnectionState,
+    A2gReconnectPolicy,
+    A2gExecutionContext,
+    A2gLogFields,
+    A2gLogger,
+    A2gMetricsSnapshot,
+    A2gSpan,
+    A2gTransport,
+    A2gLocalPolicy,
+    G2aPolicyUpdateParams,
+    ReportQueue,
+    GovernOptions,
+} from "./types.js";
+import { A2G_ERROR_CODES, intentSigningPayload } from "./protocol.js";
+import { enforceManifest } from "./enforcement.js";
+import {
+    validateCapabilityRevoked,
+    validateDisconnect,
+    validatePolicyUpdate,
+    validateResolution,
+    validateStatusResponse,
+    validateVerdict,
+} from "./validation.js";
+import type { A2gValidationResult } from "./validation.js";
+import { MemoryReportQueue, evaluateLocalPolicy } from "./offline.js";
+import { AuditLedger } from "./ledger.js";
+import { createTransport } from "./transport.js";
+import { jsonLogger, traceparent } from "./logging.js";
+import { A2gMetricsRecorder } from "./metrics.js";
+import {
+    A2gCapabilityError,
+    A2gDeniedError,
+    A2gError,
+    A2gEscalatedError,
+    A2gConnectionError,
+    A2gProtocolError,
+    A2gRpcError,
+    A2gTimeoutError,
+    errorFromRpc,
+} from "./errors.js";
 
 const DEFAULT_TIMEOUT_MS = 5000;
-const MAX_RECONNECT_ATTEMPTS = 5;
-const BASE_RECONNECT_DELAY_MS = 1000;
+const DEFAULT_ESCALATION_TIMEOUT_MS = 5 * 60 * 1000;
+const DEFAULT_RECONNECT_POLICY: Required<A2gReconnectPolicy> = {
+    maxAttempts: 5,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    jitterMs: 1000,
+};
+
+// OpenTelemetry SpanKind.CLIENT and SpanStatusCode.ERROR
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
 
 // Signing is now handled by @aeon/did-sdk
 
-export class A2gClient {
-    private ws: WebSocket | null = null;
+/**
+ * Agent side of the A2G protocol.
+ *
+ * Besides answering requests, the engine can push messages to the agent.
+ * Events:
+ * - `notification` (method, params): every server notification
+ * - `resolution` (G2aResolutionParams): an escalated intent was decided
+ * - `policyUpdate` (G2aPolicyUpdateParams): the engine's policy changed
+ * - `capabilityRevoked` (G2aCapabilityRevokedParams): an approval was withdrawn;
+ *   matching governed tools are aborted and report ABORTED
+ * - `forcedDisconnect` (G2aDisconnectParams): the engine is closing the connection
+ * - `request` (G2aRequest): a server-initiated request arrived (answered via onRequest)
+ * - `invalidMessage` (A2gProtocolError, raw): a frame failed validation and was
+ *   dropped; a request waiting for it rejects with the same error. Also
+ *   emitted for responses to unknown requests, frames with neither method
+ *   nor id, and pushes with invalid params
+ *
+ * Connection lifecycle (see A2gConnectionState):
+ * - `stateChange` (state, previous): any transition
+ * - `connecting`, `open`: a connection attempt started / succeeded
+ * - `reconnecting` ({ attempt, delayMs }): a reconnect is scheduled
+ * - `closed` (code?): not connected and not retrying
+ * - `failed` (error): auto-reconnect gave up after `reconnect.maxAttempts`
+ *
+ * @example
+ * ```typescript
+ * client.on("policyUpdate", (update) => cache.invalidate(update.tools));
+ * client.onRequest("g2a/describe", () => ({ tools: ["read_file", "write_file"] }));
+ * ```
+ */
+export class A2gClient extends EventEmitter {
+    private transport: A2gTransport;
+    private logger: A2gLogger;
     private pendingRequests = new Map<string, {
-        resolve: (verdict: G2aVerdict) => void;
+        message: { id: string; method: string };
+        sentAt: number;
+        resolve: (response: unknown) => void;
         reject: (error: Error) => void;
         timeout: NodeJS.Timeout;
+        validate?: (response: unknown) => A2gValidationResult;
     }>();
     private reconnectAttempt = 0;
     private isReconnecting = false;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private disconnected = false;
+    private connecting: Promise<void> | null = null;
+    private reconnectPolicy: Required<A2gReconnectPolicy>;
+    private connectionState: A2gConnectionState = "closed";
     private intentIdMap = new WeakMap<object, string>();
+    /** Escalations awaiting a decision, each forgotten after escalationTimeoutMs */
+    private escalatedIntents = new Map<string, NodeJS.Timeout>();
+    private resolutions = new Map<string, G2aResolutionParams>();
+    private resolutionWaiters = new Map<string, Array<{
+        resolve: (resolution: G2aResolutionParams) => void;
+        reject: (error: Error) => void;
+    }>>();
+    private requestHandlers = new Map<string, A2gRequestHandler>([
+        ["g2a/ping", () => ({})],
+    ]);
+    private executions = new Map<string, { tool: string; controller: AbortController }>();
+    private reportQueue: ReportQueue | null;
+    private localPolicy?: A2gLocalPolicy;
+    private locallyDecided = new Set<string>();
+    private auditLedger?: AuditLedger;
+    private metrics = new A2gMetricsRecorder();
 
     constructor(
         private url: string,
         private agentDid: string,
         private config: A2gClientConfig = {}
     ) {
-        // Security: Warn if using unencrypted WebSocket in non-localhost
-        if (url.startsWith("ws://") && !url.includes("localhost") && !url.includes("127.0.0.1")) {
-            console.warn("⚠️  A2G Security Warning: Using unencrypted ws:// connection. Use wss:// in production.");
+        super();
+        this.logger = config.logger ?? jsonLogger("warn");
+        this.reportQueue = config.reportQueue === false ? null : config.reportQueue ?? new MemoryReportQueue();
+        this.localPolicy = config.localPolicy;
+        this.reconnectPolicy = { ...DEFAULT_RECONNECT_POLICY, ...config.reconnect };
+        if (config.ledger) {
+            if (!config.signingKey) {
+                throw new Error("A2gClient: ledger requires signingKey");
+            }
+            this.auditLedger = new AuditLedger(config.ledger, agentDid, config.signingKey, config.keyType);
+        }
+        // Security: Warn if using an unencrypted connection in non-localhost
+        if ((url.startsWith("ws://") || url.startsWith("http://"))
+            && !url.includes("localhost") && !url.includes("127.0.0.1")) {
+            this.logger.warn("A2G security warning: unencrypted connection; use wss:// or https:// in production", { url });
         }
-    }
-
-    async connect(): Promise<void> {
-        return new Promise((resolve, reject) => {
-            const headers: Record<string, string> = {};
 
-            // Security: Add API key authentication if provided
-            if (this.config.apiKey) {
-                headers["Authorization"] = `Bearer ${this.config.apiKey}`;
+        this.transport = config.transport ?? createTransport(url, { heartbeatIntervalMs: config.heartbeatIntervalMs });
+        this.transport.on("message", (data) => {
+            let message: { method?: string; params?: unknown; id?: string } | unknown[];
+            try {
+                message = JSON.parse(data);
+            } catch (err) {
+                this.log("error", "A2G message parse error", { error: err });
+                this.emit("invalidMessage", new A2gProtocolError(
+                    A2G_ERROR_CODES.PARSE_ERROR,
+                    `Unparseable frame: ${(err as Error).message}`
+                ), data);
+                return;
             }
+            // Batch responses arrive as one array
+            for (const item of Array.isArray(message) ? message : [message]) {
+                if (typeof item !== "object" || item === null || Array.isArray(item)) {
+                    this.log("warn", "A2G dropped a frame that is not a JSON-RPC object", { frame: data });
+                    this.emit("invalidMessage", new A2gProtocolError(
+                        A2G_ERROR_CODES.INVALID_REQUEST,
+                        `Expected a JSON-RPC object, got ${item === null ? "null" : Array.isArray(item) ? "an array" : typeof item}`
+                    ), item);
+                    continue;
+                }
+                this.handleMessage(item as { method?: string; params?: unknown; id?: string });
+            }
+        });
+        this.transport.on("close", (code) => this.handleClose(code));
+    }
 
-            // Security: Add DID signature authentication if signing key provided
-            if (this.config.signingKey) {
-                // Use DID SDK for signing
-                const sig = Signer.sign(this.config.signingKey, this.agentDid);
+    /**
+     * Open the connection. Resolves at once if already connected; concurrent
+     * calls share a single attempt.
+     */
+    connect(): Promise<void> {
+        this.disconnected = false;
+        if (this.isConnected) {
+            return Promise.resolve();
+        }
+        this.connecting ??= this.openConnection().finally(() => {
+            this.connecting = null;
+        });
+        return this.connecting;
+    }
 
-                headers["X-Agent-DID"] = this.agentDid;
-                headers["X-Timestamp"] = sig.timestamp;
-                headers["X-Nonce"] = sig.nonce;
-                headers["X-Signature"] = sig.hash;
+    private async openConnection(): Promise<void> {
+        const timeoutMs = this.config.connectionTimeoutMs || 10000;
+        let connectionTimeout: NodeJS.Timeout | undefined;
+
+        if (!this.isReconnecting) {
+            this.setState("connecting");
+        }
+        try {
+            await Promise.race([
+                this.transport.open(() => this.authHeaders()),
+                new Promise<never>((_, reject) => {
+                    connectionTimeout = setTimeout(() => {
+                        this.transport.close();
+                        this.metrics.increment("timeouts");
+                        reject(new A2gTimeoutError(`A2G connection timeout after ${timeoutMs}ms`, timeoutMs));
+                    }, timeoutMs);
+                }),
+            ]);
+        } catch (err) {
+            if (this.connectionState === "connecting") {
+                this.setState("closed");
             }
+            if (err instanceof A2gError) throw err;
+            throw new A2gConnectionError(
+                `A2G connection to ${this.url} failed: ${(err as Error).message}`,
+                undefined,
+                { cause: err }
+            );
+        } finally {
+            clearTimeout(connectionTimeout);
+        }
 
-            this.ws = new WebSocket(this.url, { headers });
+        this.reconnectAttempt = 0;
+        this.isReconnecting = false;
+        this.metrics.increment("connections");
+        this.log("info", "A2G connected", { url: this.url });
+        this.setState("open");
+        if (this.config.replayInFlight) {
+            this.replayInFlight();
+        }
+        this.flushReports().catch((err) => {
+            this.log("error", "A2G failed to flush queued reports", { error: err });
+        });
+    }
 
-            const connectionTimeout = setTimeout(() => {
-                this.ws?.close();
-                reject(new Error("A2G connection timeout"));
-            }, this.config.connectionTimeoutMs || 10000);
+    private authHeaders(): Record<string, string> {
+        const headers: Record<string, string> = {};
 
-            this.ws.on("open", () => {
-                clearTimeout(connectionTimeout);
-                this.reconnectAttempt = 0;
-                this.isReconnecting = false;
-                console.log(`🛡️  A2G Connected to ${this.url}`);
-                resolve();
-            });
+        // Security: Add API key authentication if provided
+        if (this.config.apiKey) {
+            headers["Authorization"] = `Bearer ${this.config.apiKey}`;
+        }
 
-            this.ws.on("error", (err) => {
-                clearTimeout(connectionTimeout);
-                reject(err);
+        // Security: Add DID signature authentication if signing key provided
+        if (this.config.signingKey) {
+            // Use DID SDK for signing
+            const sig = Signer.sign(this.config.signingKey, this.agentDid, {
+                keyType: this.config.keyType,
             });
 
-            this.ws.on("message", (data) => {
-                try {
-                    const response = JSON.parse(data.toString()) as G2aVerdict;
-                    const pending = this.pendingRequests.get(response.id);
-                    if (pending) {
-                        clearTimeout(pending.timeout);
-                        pending.resolve(response);
-                        this.pendingRequests.delete(response.id);
-                    }
-                } catch (err) {
-                    console.error("❌ A2G Message Parse Error:", err);
-                }
-            });
+            headers["X-Agent-DID"] = this.agentDid;
+            headers["X-Timestamp"] = sig.timestamp;
+            headers["X-Nonce"] = sig.nonce;
+            headers["X-Signature"] = sig.hash;
+        }
 
-            this.ws.on("close", (code) => {
-                console.log(`❌ A2G Connection Closed (code: ${code})`);
-                this.ws = null;
+        return headers;
+    }
 
-                // Reject all pending requests
-                for (const [id, pending] of this.pendingRequests) {
-                    clearTimeout(pending.timeout);
-                    pending.reject(new Error("Connection closed"));
-                    this.pendingRequests.delete(id);
+    /**
+     * Current connection lifecycle state.
+     */
+    get state(): A2gConnectionState {
+        return this.connectionState;
+    }
+
+    private setState(state: A2gConnectionState, ...args: unknown[]): void {
+        const previous = this.connectionState;
+        if (state === previous) return;
+
+        this.connectionState = state;
+        this.emit("stateChange", state, previous);
+        this.emit(state, ...args);
+    }
+
+    /**
+     * Connect unless already connected; while a reconnect is in progress,
+     * wait for it (up to `connectionTimeoutMs`) instead of opening a second
+     * connection.
+     */
+    private async ensureConnected(): Promise<void> {
+        if (this.isConnected) return;
+        if (this.connectionState !== "reconnecting") {
+            await this.connect();
+            return;
+        }
+
+        const timeoutMs = this.config.connectionTimeoutMs || 10000;
+        await new Promise<void>((resolve, reject) => {
+            const onState = (state: A2gConnectionState) => {
+                if (state === "open") {
+                    done();
+                    resolve();
+                } else if (state === "closed" || state === "failed") {
+                    done();
+                    reject(new A2gConnectionError(`A2G reconnect ${state}`));
                 }
+            };
+            const timer = setTimeout(() => {
+                done();
+                reject(new A2gTimeoutError(`A2G still reconnecting after ${timeoutMs}ms`, timeoutMs));
+            }, timeoutMs);
+            const done = () => {
+                clearTimeout(timer);
+                this.off("stateChange", onState);
+            };
+            this.on("stateChange", onState);
+        });
+    }
 
-                // Auto-reconnect if not intentionally closed
-                if (code !== 1000 && this.config.autoReconnect !== false) {
-                    this.scheduleReconnect();
+    private log(level: keyof A2gLogger, message: string, fields: A2gLogFields = {}): void {
+        this.logger[level](message, { agent_did: this.agentDid, ...fields });
+    }
+
+    private handleClose(code: number): void {
+        this.log(code === 1000 ? "info" : "warn", "A2G connection closed", { code });
+        this.metrics.increment("disconnects");
+
+        // Auto-reconnect if not intentionally closed; after disconnect() the
+        // engine may still cut the closing socket (1006) before the close handshake
+        const willReconnect = code !== 1000 && !this.disconnected && this.config.autoReconnect !== false;
+
+        // With replayInFlight, intents wait for the reconnect; everything else fails now
+        const keep = willReconnect && this.config.replayInFlight;
+        this.rejectPending(
+            new A2gConnectionError("A2G connection closed", code),
+            (message) => !(keep && isIntent(message))
+        );
+
+        if (willReconnect) {
+            this.scheduleReconnect();
+        } else if (!this.isReconnecting) {
+            this.setState("closed", code);
+        }
+    }
+
+    private rejectPending(error: Error, matches: (message: { id: string }) => boolean = () => true): void {
+        for (const [id, pending] of this.pendingRequests) {
+            if (!matches(pending.message)) continue;
+            clearTimeout(pending.timeout);
+            pending.reject(error);
+            this.pendingRequests.delete(id);
+        }
+    }
+
+    /**
+     * Re-send intents still awaiting a verdict after a reconnect. The
+     * signature is renewed (the old nonce may already be spent); intent_id
+     * stays the same so the engine can recognise a duplicate.
+     */
+    private replayInFlight(): void {
+        for (const [id, pending] of this.pendingRequests) {
+            const intent = pending.message;
+            if (!isIntent(intent)) continue;
+
+            this.signIntent(intent);
+            this.log("info", "A2G replaying in-flight intent", {
+                intent_id: intent.params.intent_id,
+                tool: intent.params.tool,
+            });
+            this.transport.send(intent).catch((err: Error) => {
+                if (this.pendingRequests.delete(id)) {
+                    pending.reject(err);
                 }
             });
+        }
+    }
+
+    /**
+     * Answer server-initiated requests for a method.
+     * The handler's return value is sent as the result; unhandled methods
+     * get METHOD_NOT_FOUND. `g2a/ping` is answered by default.
+     */
+    onRequest(method: string, handler: A2gRequestHandler): this {
+        this.requestHandlers.set(method, handler);
+        return this;
+    }
+
+    private handleMessage(message: { method?: string; params?: unknown; id?: string }): void {
+        if (typeof message.method === "string") {
+            if (message.id !== undefined && message.id !== null) {
+                this.handleServerRequest(message as G2aRequest);
+            } else {
+                this.handleNotification(message as G2aNotification);
+            }
+            return;
+        }
+
+        if (message.method !== undefined) {
+            this.rejectFrame(message, `method: expected a string, got ${typeof message.method}`);
+            return;
+        }
+        if (message.id === undefined || message.id === null) {
+            this.rejectFrame(message, "Frame has neither a method nor a request id");
+            return;
+        }
+
+        // The timer is shared by a whole batch; sendBatch clears it once all have settled
+        const pending = this.pendingRequests.get(message.id);
+        if (!pending) {
+            this.rejectFrame(message, `Response to an unknown or expired request: ${message.id}`);
+            return;
+        }
+        this.pendingRequests.delete(message.id);
+        this.metrics.observeLatency(pending.message.method, Date.now() - pending.sentAt);
+
+        const check = pending.validate?.(message);
+        if (check && !check.valid) {
+            const error = new A2gProtocolError(
+                A2G_ERROR_CODES.INVALID_REQUEST,
+                `Invalid response from engine: ${check.errors.join("; ")}`,
+                { errors: check.errors }
+            );
+            this.emit("invalidMessage", error, message);
+            pending.reject(error);
+            return;
+        }
+        pending.resolve(message);
+    }
+
+    private handleNotification(notification: G2aNotification): void {
+        switch (notification.method) {
+            case "g2a/resolution": {
+                if (this.rejectInvalidPush(notification, validateResolution(notification.params))) return;
+                this.handleResolution(notification.params as G2aResolutionParams);
+                this.emit("resolution", notification.params);
+                break;
+            }
+            case "g2a/policy_update": {
+                const params = (notification.params ?? {}) as G2aPolicyUpdateParams;
+                if (this.rejectInvalidPush(notification, validatePolicyUpdate(params))) return;
+                if (params.local_policy) {
+                    this.localPolicy = params.local_policy;
+                }
+                this.emit("policyUpdate", params);
+                break;
+            }
+            case "g2a/capability_revoked": {
+                const params = (notification.params ?? {}) as G2aCapabilityRevokedParams;
+                if (this.rejectInvalidPush(notification, validateCapabilityRevoked(params))) return;
+                this.revokeExecutions(params);
+                this.emit("capabilityRevoked", params);
+                break;
+            }
+            case "g2a/disconnect": {
+                const params = (notification.params ?? {}) as G2aDisconnectParams;
+                if (this.rejectInvalidPush(notification, validateDisconnect(params))) return;
+                this.log("warn", "A2G engine requested disconnect", { reason: params.reason, reconnect: params.reconnect });
+                this.emit("forcedDisconnect", params);
+                // 1000 suppresses auto-reconnect; any other code lets it run
+                this.transport.close(params.reconnect ? 4000 : 1000);
+                break;
+            }
+        }
+        this.emit("notification", notification.method, notification.params);
+    }
+
+    /**
+     * Emit invalidMessage for a push whose params failed validation.
+     * @returns Whether the push is invalid (and must be ignored)
+     */
+    private rejectInvalidPush(notification: G2aNotification, check: A2gValidationResult): boolean {
+        if (check.valid) return false;
+
+        this.log("warn", `A2G ignored an invalid ${notification.method}`, { errors: check.errors });
+        this.emit("invalidMessage", new A2gProtocolError(
+            A2G_ERROR_CODES.INVALID_PARAMS,
+            `Invalid ${notification.method}: ${check.errors.join("; ")}`,
+            { errors: check.errors }
+        ), notification);
+        return true;
+    }
+
+    /**
+     * Emit invalidMessage for a frame that is neither a request, a
+     * notification nor the response to a pending request.
+     */
+    private rejectFrame(frame: unknown, reason: string): void {
+        this.log("warn", "A2G dropped an unexpected frame", { reason });
+        this.emit("invalidMessage", new A2gProtocolError(A2G_ERROR_CODES.INVALID_REQUEST, reason), frame);
+    }
+
+    private async handleServerRequest(request: G2aRequest): Promise<void> {
+        this.emit("request", request);
+
+        const response: A2gResponse = { jsonrpc: "2.0", id: request.id };
+        const handler = this.requestHandlers.get(request.method);
+        if (!handler) {
+            response.error = {
+                code: A2G_ERROR_CODES.METHOD_NOT_FOUND,
+                message: `Method not found: ${request.method}`,
+            };
+        } else {
+            try {
+                response.result = (await handler(request.params)) ?? null;
+            } catch (err) {
+                response.error = err instanceof A2gRpcError
+                    ? { code: err.code, message: err.rpcMessage, data: err.data }
+                    : { code: A2G_ERROR_CODES.INTERNAL_ERROR, message: err instanceof Error ? err.message : String(err) };
+            }
+        }
+
+        await this.transport.send(response).catch(() => {
+            // The engine will time the request out
         });
     }
 
-    private scheduleReconnect(): void {
-        if (this.isReconnecting || this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
-            console.error(`❌ A2G: Max reconnection attempts (${MAX_RECONNECT_ATTEMPTS}) reached`);
+    private revokeExecutions(params: G2aCapabilityRevokedParams): void {
+        for (const [intentId, execution] of this.executions) {
+            const matches = params.intent_id
+                ? params.intent_id === intentId
+                : !params.tool || params.tool === execution.tool;
+            if (matches) {
+                execution.controller.abort(new A2gCapabilityError(
+                    "revoked",
+                    `A2G revoked approval for ${execution.tool}${params.reason ? `: ${params.reason}` : ""}`
+                ));
+            }
+        }
+    }
+
+    private scheduleReconnect(lastError?: Error): void {
+        // A failed attempt's socket also closes; its retry is already handled
+        if (this.isReconnecting) return;
+
+        const policy = this.reconnectPolicy;
+        if (this.reconnectAttempt >= policy.maxAttempts) {
+            this.log("error", "A2G max reconnection attempts reached", { attempts: this.reconnectAttempt });
+            this.metrics.increment("reconnects_exhausted");
+            this.reconnectAttempt = 0;
+            this.rejectPending(new A2gConnectionError("A2G reconnection failed"));
+            this.setState("failed", lastError ?? new A2gConnectionError("A2G reconnection failed"));
             return;
         }
 
         this.isReconnecting = true;
         this.reconnectAttempt++;
+        this.metrics.increment("reconnect_attempts");
 
         // Exponential backoff with jitter
         const delay = Math.min(
-            BASE_RECONNECT_DELAY_MS * Math.pow(2, this.reconnectAttempt - 1),
-            30000
-        ) + Math.random() * 1000;
+            policy.baseDelayMs * Math.pow(2, this.reconnectAttempt - 1),
+            policy.maxDelayMs
+        ) + Math.random() * policy.jitterMs;
 
-        console.log(`🔄 A2G: Reconnecting in ${Math.round(delay)}ms (attempt ${this.reconnectAttempt}/${MAX_RECONNECT_ATTEMPTS})`);
+        this.log("info", "A2G reconnecting", {
+            delay_ms: Math.round(delay),
+            attempt: this.reconnectAttempt,
+            max_attempts: policy.maxAttempts,
+        });
+        this.setState("reconnecting", { attempt: this.reconnectAttempt, delayMs: Math.round(delay) });
 
-        setTimeout(async () => {
+        this.reconnectTimer = setTimeout(async () => {
+            this.reconnectTimer = null;
             try {
                 await this.connect();
             } catch (err) {
-                console.error("❌ A2G: Reconnection failed:", err);
+                this.log("error", "A2G reconnection failed", { error: err });
+                this.metrics.increment("reconnect_failures");
                 this.isReconnecting = false;
-                this.scheduleReconnect();
+                this.scheduleReconnect(err as Error);
             }
         }, delay);
     }
 
+    /**
+     * Ask the engine for a verdict on one action.
+     *
+     * The third argument also serves as the key for `getIntentId`; any
+     * object can be passed for that purpose alone.
+     *
+     * @example
+     * ```typescript
+     * const verdict = await client.requestIntent("send_email", { to: "cfo@example.com" }, {
+     *     sessionId: task.id,
+     *     parentIntent: planIntentId,
+     *     reasoning: "User asked to forward the Q3 report",
+     *     timeoutMs: 2000,
+     *     signal: AbortSignal.timeout(10_000),
+     * });
+     * ```
+     */
+    requestIntent(tool: string, args: Record<string, unknown>, options?: A2gIntentOptions): Promise<G2aVerdict>;
+    requestIntent(tool: string, args: Record<string, unknown>, context?: object): Promise<G2aVerdict>;
     async requestIntent(
         tool: string,
         args: Record<string, unknown>,
-        context?: object
+        context?: A2gIntentOptions | object
     ): Promise<G2aVerdict> {
-        if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-            await this.connect();
+        const options = context as A2gIntentOptions | undefined;
+        options?.signal?.throwIfAborted();
+
+        return this.traced("a2g.intent", { "a2g.tool": tool }, async (span) => {
+            const intent = this.buildIntent(tool, args, span, options);
+            const intentId = intent.params.intent_id;
+            span?.setAttribute("a2g.intent_id", intentId);
+
+            // Store intentId for later reporting
+            if (context) {
+                this.intentIdMap.set(context, intentId);
+            }
+
+            await this.auditLedger?.append("intent", intentId, intent);
+
+            let verdict: G2aVerdict;
+            try {
+                await abortable(this.ensureConnected(), options?.signal);
+                verdict = await this.sendRequest<G2aVerdict>(intent, verdictValidator(intent), options);
+            } catch (err) {
+                // Only an unreachable engine falls back; errors on a live connection,
+                // rejected credentials and cancellations propagate
+                if (this.isConnected || !engineUnreachable(err)) throw err;
+                verdict = this.decideLocally(tool, intentId, intent.id, err as Error);
+            }
+
+            await this.acceptVerdict(tool, intentId, verdict);
+            if (span) {
+                recordVerdict(span, verdict);
+            }
+            if (this.config.strict && verdict.error) {
+                throw errorFromRpc(verdict.error);
+            }
+            return verdict;
+        });
+    }
+
+    /**
+     * Request verdicts for several candidate actions in one JSON-RPC batch.
+     * Each intent is signed individually; the result has one verdict (or
+     * JSON-RPC error) per call, in the same order. Per-intent errors are
+     * returned even in `strict` mode; an intent that timed out or got an
+     * invalid answer while others succeeded gets an error verdict too.
+     *
+     * @example
+     * ```typescript
+     * const verdicts = await client.requestIntents([
+     *     { tool: "read_file", args: { path: "/data/in.csv" } },
+     *     { tool: "send_email", args: { to: "ops@example.com" } },
+     * ]);
+     * const allowed = verdicts.filter(v => v.result?.verdict === "APPROVED");
+     * ```
+     */
+    async requestIntents(
+        calls: A2gIntentCall[],
+        options: Pick<A2gIntentOptions, "timeoutMs" | "signal"> = {}
+    ): Promise<G2aVerdict[]> {
+        if (calls.length === 0) {
+            return [];
         }
+        options.signal?.throwIfAborted();
 
-        const intentId = uuidv4();
-        const requestId = uuidv4();
+        return this.traced("a2g.intents", { "a2g.batch_size": calls.length }, async (span) => {
+            const intents = calls.map(call => this.buildIntent(call.tool, call.args, span, call));
+            for (const intent of intents) {
+                await this.auditLedger?.append("intent", intent.params.intent_id, intent);
+            }
 
-        // Store intentId for later reporting
-        if (context) {
-            this.intentIdMap.set(context, intentId);
+            let verdicts: G2aVerdict[];
+            try {
+                await abortable(this.ensureConnected(), options.signal);
+                const settled = await this.sendBatch<G2aVerdict, A2gIntent>(intents, true, verdictValidator, options);
+
+                // A batch that failed as a whole (send error, abort, lost engine) is
+                // handled like a failed requestIntent; partial failures become error verdicts
+                const failures = settled.filter((entry): entry is PromiseRejectedResult => entry.status === "rejected");
+                if (failures.length === settled.length) {
+                    throw failures[0].reason;
+                }
+                verdicts = settled.map((entry, i) => (
+                    entry.status === "fulfilled" ? entry.value : errorVerdict(intents[i].id, entry.reason)
+                ));
+            } catch (err) {
+                if (this.isConnected || !engineUnreachable(err)) throw err;
+                verdicts = intents.map(intent =>
+                    this.decideLocally(intent.params.tool, intent.params.intent_id, intent.id, err as Error)
+                );
+            }
+
+            for (let i = 0; i < intents.length; i++) {
+                await this.acceptVerdict(intents[i].params.tool, intents[i].params.intent_id, verdicts[i]);
+            }
+            span?.setAttribute("a2g.approved", verdicts.filter(v => v.result?.verdict === "APPROVED").length);
+            return verdicts;
+        });
+    }
+
+    /**
+     * Run `run` inside a client span if a tracer is configured.
+     */
+    private async traced<T>(
+        name: string,
+        attributes: Record<string, string | number | boolean>,
+        run: (span?: A2gSpan) => Promise<T>
+    ): Promise<T> {
+        const span = this.config.tracer?.startSpan(name, {
+            kind: SPAN_KIND_CLIENT,
+            attributes: { ...attributes, "a2g.agent_did": this.agentDid },
+        });
+        try {
+            return await run(span);
+        } catch (err) {
+            span?.recordException(err as Error);
+            span?.setStatus({ code: SPAN_STATUS_ERROR, message: (err as Error).message });
+            throw err;
+        } finally {
+            span?.end();
         }
+    }
 
+    private buildIntent(
+        tool: string,
+        args: Record<string, unknown>,
+        span?: A2gSpan,
+        options: Pick<A2gIntentOptions, "sessionId" | "parentIntent" | "reasoning"> = {}
+    ): A2gIntent {
         const intent: A2gIntent = {
             jsonrpc: "2.0",
             method: "a2g/intent",
             params: {
                 agent_did: this.agentDid,
-                intent_id: intentId,
+                intent_id: uuidv4(),
                 tool,
                 arguments: args,
             },
-            id: requestId,
+            id: uuidv4(),
         };
 
-        // Sign the intent payload if signing key is configured
-        if (this.config.signingKey) {
-            const paramsForSignature: Record<string, unknown> = {
-                ...intent.params,
-                context: intent.params.context ? { ...intent.params.context } : undefined,
+        // Caller and trace context are signed with the rest of the params
+        const context: NonNullable<A2gIntent["params"]["context"]> = {};
+        if (options.sessionId !== undefined) context.session_id = options.sessionId;
+        if (options.parentIntent !== undefined) context.parent_intent = options.parentIntent;
+        if (options.reasoning !== undefined) context.reasoning = options.reasoning;
+        if (span) {
+            context.traceparent = traceparent(span);
+            const traceState = span.spanContext().traceState?.serialize();
+            if (traceState) context.tracestate = traceState;
+        }
+        if (Object.keys(context).length > 0) {
+            intent.params.context = context;
+        }
+
+        this.signIntent(intent);
+        return intent;
+    }
+
+    /**
+     * Sign the intent payload if signing key is configured, replacing any
+     * earlier signature.
+     */
+    private signIntent(intent: A2gIntent): void {
+        if (!this.config.signingKey) return;
+
+        const paramsForSignature = intentSigningPayload(intent.params);
+
+        const sig = Signer.sign(this.config.signingKey, paramsForSignature, {
+            keyType: this.config.keyType,
+        });
+
+        intent.params.context = {
+            ...intent.params.context,
+            signature: sig,
+        };
+    }
+
+    private async acceptVerdict(tool: string, intentId: string, verdict: G2aVerdict): Promise<void> {
+        await this.auditLedger?.append("verdict", intentId, verdict);
+        this.metrics.recordVerdict(tool, verdict);
+
+        if (verdict.result?.verdict === "ESCALATE") {
+            this.trackEscalation(verdict.result.intent_id);
+            this.config.onEscalation?.(verdict.result, tool);
+        }
+    }
+
+    /**
+     * Fall back to the local policy when the engine is unreachable.
+     */
+    private decideLocally(tool: string, intentId: string, requestId: string, cause: Error): G2aVerdict {
+        if (!this.localPolicy) {
+            throw cause;
+        }
+
+        const result = evaluateLocalPolicy(this.localPolicy, tool, intentId);
+        this.log("warn", "A2G engine unreachable; decided by local policy", {
+            intent_id: intentId,
+            tool,
+            verdict: result.verdict,
+            error: cause,
+        });
+        this.locallyDecided.add(intentId);
+        return { jsonrpc: "2.0", id: requestId, result };
+    }
+
+    /**
+     * Wait for the human decision on an escalated intent.
+     *
+     * Resolves on a `g2a/resolution` push from the engine, or on an
+     * `a2g/status` poll if `escalationPollIntervalMs` is configured.
+     *
+     * @param intentId - Intent that received an ESCALATE verdict
+     * @param timeoutMs - Give up after this long (default: escalationTimeoutMs)
+     * @throws A2gTimeoutError if no decision arrives in time or the escalation expired
+     * @throws A2gConnectionError if `disconnect` is called while waiting
+     *
+     * @example
+     * ```typescript
+     * const verdict = await client.requestIntent("wire_transfer", { amount: 10_000 });
+     * if (verdict.result?.verdict === "ESCALATE") {
+     *     const resolution = await client.awaitResolution(verdict.result.intent_id);
+     *     if (resolution.verdict === "DENIED") return;
+     * }
+     * ```
+     */
+    awaitResolution(intentId: string, timeoutMs?: number): Promise<G2aResolutionParams> {
+        const known = this.resolutions.get(intentId);
+        if (known) {
+            this.forgetEscalation(intentId);
+            return Promise.resolve(known);
+        }
+
+        const waitMs = timeoutMs ?? this.config.escalationTimeoutMs ?? DEFAULT_ESCALATION_TIMEOUT_MS;
+
+        return new Promise((resolve, reject) => {
+            let poller: NodeJS.Timeout | undefined;
+
+            const waiter = {
+                resolve: (resolution: G2aResolutionParams) => {
+                    cleanup();
+                    resolve(resolution);
+                },
+                reject: (error: Error) => {
+                    cleanup();
+                    reject(error);
+                },
             };
-            if (paramsForSignature.context && typeof paramsForSignature.context === "object") {
-                delete (paramsForSignature.context as Record<string, unknown>).signature;
-            }
 
-            const sig = Signer.sign(this.config.signingKey, paramsForSignature);
+            const timer = setTimeout(() => {
+                waiter.reject(new A2gTimeoutError(
+                    `A2G escalation ${intentId} not resolved within ${waitMs}ms`,
+                    waitMs
+                ));
+                this.forgetEscalation(intentId);
+            }, waitMs);
 
-            intent.params.context = {
-                ...intent.params.context,
-                signature: sig,
+            const cleanup = () => {
+                clearTimeout(timer);
+                clearInterval(poller);
+                const waiters = (this.resolutionWaiters.get(intentId) || []).filter(w => w !== waiter);
+                if (waiters.length > 0) {
+                    this.resolutionWaiters.set(intentId, waiters);
+                } else {
+                    this.resolutionWaiters.delete(intentId);
+                }
             };
+
+            this.resolutionWaiters.set(intentId, [...(this.resolutionWaiters.get(intentId) || []), waiter]);
+
+            if (this.config.escalationPollIntervalMs) {
+                poller = setInterval(() => {
+                    this.pollStatus(intentId).catch(() => {
+                        // Transient failures: keep polling until the timeout
+                    });
+                }, this.config.escalationPollIntervalMs);
+            }
+        });
+    }
+
+    private async pollStatus(intentId: string): Promise<void> {
+        await this.ensureConnected();
+
+        const request: A2gStatusRequest = {
+            jsonrpc: "2.0",
+            method: "a2g/status",
+            params: {
+                agent_did: this.agentDid,
+                intent_id: intentId,
+            },
+            id: uuidv4(),
+        };
+
+        const response = await this.sendRequest<G2aStatusResponse>(request, validateStatusResponse);
+        const status = response.result;
+        if (status?.status === "RESOLVED" && status.resolution) {
+            this.handleResolution(status.resolution);
+        } else if (status?.status === "EXPIRED") {
+            for (const waiter of this.resolutionWaiters.get(intentId) || []) {
+                waiter.reject(new A2gTimeoutError(`A2G escalation ${intentId} expired`, 0));
+            }
+            this.forgetEscalation(intentId);
         }
+    }
 
-        const timeoutMs = this.config.requestTimeoutMs || DEFAULT_TIMEOUT_MS;
+    private handleResolution(resolution: G2aResolutionParams): void {
+        const intentId = resolution?.intent_id;
+        if (!intentId) return;
 
-        return new Promise((resolve, reject) => {
-            const timeout = setTimeout(() => {
-                this.pendingRequests.delete(requestId);
-                reject(new Error(`A2G request timeout after ${timeoutMs}ms`));
-            }, timeoutMs);
+        const waiters = this.resolutionWaiters.get(intentId);
+        if (waiters && waiters.length > 0) {
+            for (const waiter of waiters) {
+                waiter.resolve(resolution);
+            }
+            this.forgetEscalation(intentId);
+        } else if (this.escalatedIntents.has(intentId)) {
+            // Keep it for a later awaitResolution call, until the escalation times out
+            this.resolutions.set(intentId, resolution);
+        }
+    }
+
+    private trackEscalation(intentId: string): void {
+        clearTimeout(this.escalatedIntents.get(intentId));
+        const timer = setTimeout(
+            () => this.forgetEscalation(intentId),
+            this.config.escalationTimeoutMs ?? DEFAULT_ESCALATION_TIMEOUT_MS
+        );
+        timer.unref();
+        this.escalatedIntents.set(intentId, timer);
+    }
+
+    private forgetEscalation(intentId: string): void {
+        clearTimeout(this.escalatedIntents.get(intentId));
+        this.escalatedIntents.delete(intentId);
+        this.resolutions.delete(intentId);
+    }
+
+    private sendRequest<T>(
+        message: { id: string; method: string },
+        validate?: (response: unknown) => A2gValidationResult,
+        options?: Pick<A2gIntentOptions, "timeoutMs" | "signal">
+    ): Promise<T> {
+        return this.sendBatch<T, { id: string; method: string }>([message], false, () => validate, options).then(([response]) => {
+            if (response.status === "rejected") throw response.reason;
+            return response.value;
+        });
+    }
+
+    /**
+     * Send requests in one frame (a JSON-RPC batch array unless `asBatch`
+     * is false) under a single timeout; responses are matched by id and
+     * checked with the validator for their request. Each request settles on
+     * its own, so one timeout or invalid response does not discard the
+     * others. Aborting `signal` rejects them all with its reason.
+     */
+    private sendBatch<T, M extends { id: string; method: string }>(
+        messages: M[],
+        asBatch = true,
+        validatorFor?: (message: M) => ((response: unknown) => A2gValidationResult) | undefined,
+        options: Pick<A2gIntentOptions, "timeoutMs" | "signal"> = {}
+    ): Promise<PromiseSettledResult<T>[]> {
+        const { signal } = options;
+        if (signal?.aborted) {
+            return Promise.reject(signal.reason);
+        }
+
+        const timeoutMs = options.timeoutMs || this.config.requestTimeoutMs || DEFAULT_TIMEOUT_MS;
+        const ids = messages.map(message => message.id);
+
+        const failAll = (err: Error) => {
+            for (const id of ids) {
+                const pending = this.pendingRequests.get(id);
+                if (pending) {
+                    this.pendingRequests.delete(id);
+                    pending.reject(err);
+                }
+            }
+        };
+
+        const timeout = setTimeout(() => {
+            this.metrics.increment("timeouts");
+            failAll(new A2gTimeoutError(`A2G request timeout after ${timeoutMs}ms`, timeoutMs));
+        }, timeoutMs);
+
+        const sentAt = Date.now();
+        const responses = Promise.allSettled(messages.map(message => new Promise<T>((resolve, reject) => {
+            this.pendingRequests.set(message.id, {
+                message,
+                sentAt,
+                resolve: resolve as (response: unknown) => void,
+                reject,
+                timeout,
+                validate: validatorFor?.(message),
+            });
+        })));
+
+        const onAbort = () => failAll(signal!.reason);
+        signal?.addEventListener("abort", onAbort, { once: true });
+
+        this.transport.send(asBatch ? messages : messages[0]).catch((err: Error) => {
+            clearTimeout(timeout);
+            failAll(err);
+        });
 
-            this.pendingRequests.set(requestId, { resolve, reject, timeout });
-            this.ws?.send(JSON.stringify(intent));
+        // Once every entry has settled the shared timer is done and no id may linger
+        return responses.finally(() => {
+            clearTimeout(timeout);
+            for (const id of ids) {
+                this.pendingRequests.delete(id);
+            }
+            signal?.removeEventListener("abort", onAbort);
         });
     }
 
+    /**
+     * Snapshot of the client's counters: request latency, verdicts per tool,
+     * risk levels, timeouts and connection churn. Pass it to
+     * `formatPrometheus` to expose it for scraping.
+     *
+     * @example
+     * ```typescript
+     * const { verdicts } = client.getMetrics();
+     * const denied = verdicts.write_file?.DENIED ?? 0;
+     * ```
+     */
+    getMetrics(): A2gMetricsSnapshot {
+        return this.metrics.snapshot(this.agentDid, this.isConnected);
+    }
+
     getIntentId(context: object): string | undefined {
         return this.intentIdMap.get(context);
     }
 
+    /**
+     * Report how an approved action went. While the engine is unreachable
+     * the report is queued (see `reportQueue`) and sent on reconnect.
+     */
     async reportOutcome(
         intentId: string,
         status: "SUCCESS" | "FAILURE" | "TIMEOUT" | "ABORTED",
@@ -203,40 +1047,275 @@ export class A2gClient {
         error?: string,
         durationMs?: number
     ): Promise<void> {
-        if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+        const params: A2gReport["params"] = {
+            agent_did: this.agentDid,
+            intent_id: intentId,
+            status,
+            result,
+            error,
+            metrics: {
+                duration_ms: durationMs || 0,
+            },
+        };
+        if (this.locallyDecided.delete(intentId)) {
+            params.decided_locally = true;
+        }
+
+        await this.auditLedger?.append("report", intentId, { jsonrpc: "2.0", method: "a2g/report", params });
+
+        if (!this.isConnected) {
+            await this.reportQueue?.push(params);
+            return;
+        }
+        await this.sendReport(params);
+    }
 
+    private async sendReport(params: A2gReport["params"]): Promise<void> {
+        try {
+            await this.deliverReport(params);
+        } catch {
+            await this.reportQueue?.push(params);
+        }
+    }
+
+    /**
+     * Send a report; rejects unless the transport accepted it.
+     */
+    private async deliverReport(params: A2gReport["params"]): Promise<void> {
+        if (!this.isConnected) {
+            throw new A2gConnectionError("A2G client is not connected");
+        }
         const report: A2gReport = {
             jsonrpc: "2.0",
             method: "a2g/report",
-            params: {
-                agent_did: this.agentDid,
-                intent_id: intentId,
-                status,
-                result,
-                error,
-                metrics: {
-                    duration_ms: durationMs || 0,
-                },
-            },
-            id: uuidv4(),
+            params,
         };
+        await this.transport.send(report);
+    }
 
-        this.ws.send(JSON.stringify(report));
+    /**
+     * The audit ledger, if `ledger` is configured.
+     *
+     * @example
+     * ```typescript
+     * const result = await client.ledger!.verify();
+     * ```
+     */
+    get ledger(): AuditLedger | undefined {
+        return this.auditLedger;
+    }
+
+    /**
+     * Send reports queued while the engine was unreachable.
+     */
+    private async flushReports(): Promise<void> {
+        if (!this.reportQueue) return;
+
+        // Reports the transport does not accept stay queued for the next connection
+        const count = await this.reportQueue.drain((report) => this.deliverReport(report));
+        if (count > 0) {
+            this.log("info", "A2G sent queued reports", { count });
+        }
+    }
+
+    /**
+     * Wrap a tool so every call is governed.
+     *
+     * Each call requests an intent for `tool` and throws A2gDeniedError on
+     * DENIED. On ESCALATE the tool is held until a human resolves the intent
+     * (A2gEscalatedError if nobody does in time). On APPROVED/CONDITIONAL it
+     * runs the tool under the verdict's capability manifest and reports
+     * SUCCESS, FAILURE, TIMEOUT or ABORTED with its duration. A
+     * `g2a/capability_revoked` push for the intent aborts the tool.
+     *
+     * @example
+     * ```typescript
+     * const writeFile = client.govern("write_file", async (args: { path: string; content: string }, ctx) => {
+     *     await fs.writeFile(ctx.assertPath(args.path), args.content, { signal: ctx.signal });
+     * });
+     * await writeFile({ path: "/tmp/out.txt", content: "hello" });
+     * ```
+     */
+    govern<A extends Record<string, unknown>, R>(
+        tool: string,
+        fn: (args: A, context: A2gExecutionContext) => Promise<R> | R,
+        options: GovernOptions = {}
+    ): (args: A) => Promise<R> {
+        return async (args: A) => {
+            const response = await this.requestIntent(tool, args);
+            if (response.error) {
+                throw errorFromRpc(response.error);
+            }
+            let verdict = response.result;
+            if (!verdict) {
+                throw new A2gError(`A2G verdict for ${tool} has neither result nor error`);
+            }
+
+            if (verdict.verdict === "ESCALATE") {
+                verdict = await this.holdForResolution(tool, verdict, options.escalationTimeoutMs);
+            }
+            if (verdict.verdict === "DENIED") {
+                throw new A2gDeniedError(tool, verdict);
+            }
+
+            const startedAt = Date.now();
+            const revocation = new AbortController();
+            this.executions.set(verdict.intent_id, { tool, controller: revocation });
+            try {
+                const result = await enforceManifest(verdict, args, (context) => fn(args, context), {
+                    timeoutMs: options.timeoutMs,
+                    pathArgs: options.pathArgs,
+                    signal: revocation.signal,
+                });
+
+                await this.reportOutcome(
+                    verdict.intent_id,
+                    "SUCCESS",
+                    options.reportResult === false ? undefined : result,
+                    undefined,
+                    Date.now() - startedAt
+                );
+                return result;
+            } catch (err) {
+                const status = err instanceof A2gTimeoutError
+                    ? "TIMEOUT"
+                    : err instanceof A2gCapabilityError ? "ABORTED" : "FAILURE";
+                await this.reportOutcome(
+                    verdict.intent_id,
+                    status,
+                    undefined,
+                    err instanceof Error ? err.message : String(err),
+                    Date.now() - startedAt
+                );
+                throw err;
+            } finally {
+                this.executions.delete(verdict.intent_id);
+            }
+        };
+    }
+
+    /**
+     * Wait for the human decision on an escalated verdict and merge it in.
+     */
+    private async holdForResolution(
+        tool: string,
+        verdict: G2aVerdictResult,
+        timeoutMs?: number
+    ): Promise<G2aVerdictResult> {
+        let resolution: G2aResolutionParams;
+        try {
+            resolution = await this.awaitResolution(verdict.intent_id, timeoutMs);
+        } catch (err) {
+            if (err instanceof A2gTimeoutError) {
+                throw new A2gEscalatedError(tool, verdict);
+            }
+            throw err;
+        }
+
+        return {
+            ...verdict,
+            verdict: resolution.verdict,
+            capability_manifest: resolution.capability_manifest ?? verdict.capability_manifest,
+            conditions: resolution.conditions ?? verdict.conditions,
+        };
     }
 
     disconnect(): void {
-        // Clear all pending requests
-        for (const [id, pending] of this.pendingRequests) {
-            clearTimeout(pending.timeout);
-            pending.reject(new Error("Client disconnected"));
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+        }
+        this.isReconnecting = false;
+        this.reconnectAttempt = 0;
+        this.disconnected = true;
+
+        const error = new A2gConnectionError("A2G client disconnected", 1000);
+        this.rejectPending(error);
+        // Waiters remove themselves when rejected, so iterate over a copy
+        for (const waiter of [...this.resolutionWaiters.values()].flat()) {
+            waiter.reject(error);
+        }
+        for (const intentId of [...this.escalatedIntents.keys()]) {
+            this.forgetEscalation(intentId);
         }
-        this.pendingRequests.clear();
 
         // Close with normal closure code to prevent auto-reconnect
-        this.ws?.close(1000);
+        this.transport.close(1000);
+        this.setState("closed", 1000);
     }
 
     get isConnected(): boolean {
-        return this.ws?.readyState === WebSocket.OPEN;
+        return this.transport.isOpen;
+    }
+}
+
+/**
+ * Stand-in verdict for a batch entry that got no valid answer.
+ */
+function errorVerdict(id: string, err: unknown): G2aVerdict {
+    if (err instanceof A2gRpcError) {
+        return { jsonrpc: "2.0", id, error: { code: err.code, message: err.rpcMessage, data: err.data } };
+    }
+    return {
+        jsonrpc: "2.0",
+        id,
+        error: { code: A2G_ERROR_CODES.INTERNAL_ERROR, message: (err as Error).message, data: { error: (err as Error).name } },
+    };
+}
+
+/**
+ * Settle with `promise`, or reject with `signal.reason` once it aborts.
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) {
+        return promise;
+    }
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        if (signal.aborted) {
+            onAbort();
+        }
+        signal.addEventListener("abort", onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+    });
+}
+
+/**
+ * Whether an error means the engine could not be reached (as opposed to
+ * the engine refusing the agent, e.g. A2gAuthError on the handshake).
+ */
+function engineUnreachable(err: unknown): boolean {
+    return err instanceof A2gConnectionError || err instanceof A2gTimeoutError;
+}
+
+function isIntent(message: { id: string }): message is A2gIntent {
+    return (message as A2gIntent).method === "a2g/intent";
+}
+
+/**
+ * Validate a verdict and check it answers this intent.
+ */
+function verdictValidator(intent: A2gIntent): (response: unknown) => A2gValidationResult {
+    return (response) => {
+        const check = validateVerdict(response);
+        const result = (response as G2aVerdict).result;
+        if (check.valid && result && result.intent_id !== intent.params.intent_id) {
+            return { valid: false, errors: [`result.intent_id: expected ${intent.params.intent_id}`] };
+        }
+        return check;
+    };
+}
+
+function recordVerdict(span: A2gSpan, verdict: G2aVerdict): void {
+    if (verdict.result) {
+        span.setAttribute("a2g.verdict", verdict.result.verdict);
+        span.setAttribute("a2g.risk_level", verdict.result.risk_assessment.level);
+        span.setAttribute("a2g.risk_score", verdict.result.risk_assessment.score);
+        if (verdict.result.decided_locally) {
+            span.setAttribute("a2g.decided_locally", true);
+        }
+    } else if (verdict.error) {
+        span.setAttribute("a2g.error_code", verdict.error.code);
+        span.setStatus({ code: SPAN_STATUS_ERROR, message: verdict.error.message });
     }
 }
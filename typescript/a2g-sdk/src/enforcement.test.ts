@@ -0,0 +1,145 @@
+/**
+ * Capability manifest enforcement: filesystem scope, network, time budget
+ * and worker isolation.
+ */
+
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createExecutionContext, enforceManifest, isPathInScope, runInWorker } from "./enforcement.js";
+import { A2gCapabilityError, A2gTimeoutError } from "./errors.js";
+import type { CapabilityManifest, G2aVerdictResult } from "./types.js";
+
+function approved(manifest: CapabilityManifest): G2aVerdictResult {
+    return {
+        verdict: "CONDITIONAL",
+        intent_id: "intent-1",
+        risk_assessment: { score: 0, level: "LOW", threats: [] },
+        capability_manifest: manifest,
+    };
+}
+
+describe("isPathInScope", () => {
+    let root: string;
+    let scope: string;
+
+    before(async () => {
+        root = await fs.realpath(await fs.mkdtemp(join(tmpdir(), "a2g-scope-")));
+        scope = join(root, "scope");
+        await fs.mkdir(join(scope, "sub"), { recursive: true });
+        await fs.mkdir(join(root, "outside"));
+        await fs.symlink(join(root, "outside"), join(scope, "escape"));
+    });
+
+    it("accepts paths inside a directory scope", () => {
+        assert.equal(isPathInScope(join(scope, "sub", "file.txt"), [scope]), true);
+        assert.equal(isPathInScope(scope, [scope]), true);
+        assert.equal(isPathInScope(join(scope, "not-created-yet.txt"), [`${scope}/**`]), true);
+    });
+
+    it("rejects .. traversal out of the scope", () => {
+        assert.equal(isPathInScope(join(scope, "sub", "..", "..", "outside", "file.txt"), [scope]), false);
+        assert.equal(isPathInScope(`${scope}/../outside/file.txt`, [scope]), false);
+    });
+
+    it("does not treat a shared name prefix as inside", () => {
+        assert.equal(isPathInScope(`${scope}-evil/file.txt`, [scope]), false);
+    });
+
+    it("resolves symlinks before comparing", () => {
+        assert.equal(isPathInScope(join(scope, "escape", "file.txt"), [scope]), false);
+        assert.equal(isPathInScope(join(scope, "escape", "file.txt"), [join(root, "outside")]), true);
+    });
+
+    it("matches an exact file entry only", () => {
+        const file = join(scope, "sub", "file.txt");
+
+        assert.equal(isPathInScope(file, [file]), true);
+        assert.equal(isPathInScope(join(scope, "sub", "other.txt"), [file]), false);
+    });
+});
+
+describe("enforceManifest", () => {
+    it("refuses a path argument outside the scope without running the action", async () => {
+        let ran = false;
+
+        await assert.rejects(
+            enforceManifest(approved({ filesystem_scope: ["/srv/data"] }), { path: "/etc/passwd" }, () => {
+                ran = true;
+            }),
+            (err: A2gCapabilityError) => err instanceof A2gCapabilityError && err.capability === "filesystem_scope"
+        );
+        assert.equal(ran, false);
+    });
+
+    it("denies network access when the manifest forbids it", () => {
+        const context = createExecutionContext(approved({ network_allowed: false }), new AbortController().signal);
+
+        assert.throws(() => context.assertNetwork(), A2gCapabilityError);
+    });
+
+    it("aborts the action once timeout_seconds has elapsed", async () => {
+        let signal: AbortSignal | undefined;
+
+        await assert.rejects(
+            enforceManifest(approved({ timeout_seconds: 0.05 }), {}, (context) => {
+                signal = context.signal;
+                return new Promise(() => { /* never settles */ });
+            }),
+            A2gTimeoutError
+        );
+        assert.equal(signal?.aborted, true);
+    });
+
+    it("uses the stricter of timeoutMs and timeout_seconds", async () => {
+        await assert.rejects(
+            enforceManifest(approved({ timeout_seconds: 60 }), {}, () => new Promise(() => { /* never settles */ }), {
+                timeoutMs: 50,
+            }),
+            (err: A2gTimeoutError) => err instanceof A2gTimeoutError && err.timeoutMs === 50
+        );
+    });
+});
+
+describe("runInWorker", () => {
+    let modulePath: string;
+
+    before(async () => {
+        modulePath = join(await fs.mkdtemp(join(tmpdir(), "a2g-worker-")), "tools.mjs");
+        await fs.writeFile(modulePath, [
+            "export const double = ({ n }) => n * 2;",
+            "export const hang = () => new Promise(() => setInterval(() => {}, 1000));",
+            "export const fail = () => { throw new Error('tool failed'); };",
+            "export const crash = () => process.exit(3);",
+        ].join("\n"));
+    });
+
+    it("returns the result of the exported function", async () => {
+        const result = await enforceManifest(approved({}), {}, (context) => runInWorker(modulePath, "double", { n: 21 }, context));
+
+        assert.equal(result, 42);
+    });
+
+    it("terminates the worker when the time budget runs out", async () => {
+        await assert.rejects(
+            enforceManifest(approved({ timeout_seconds: 0.1 }), {}, (context) => runInWorker(modulePath, "hang", {}, context)),
+            A2gTimeoutError
+        );
+    });
+
+    it("rejects with the error thrown by the function", async () => {
+        await assert.rejects(
+            enforceManifest(approved({}), {}, (context) => runInWorker(modulePath, "fail", {}, context)),
+            /tool failed/
+        );
+    });
+
+    it("rejects when the worker crashes", async () => {
+        await assert.rejects(
+            enforceManifest(approved({}), {}, (context) => runInWorker(modulePath, "crash", {}, context)),
+            /exited with code 3/
+        );
+    });
+});
@@ -0,0 +1,219 @@
+import { realpathSync } from "fs";
+import { basename, dirname, isAbsolute, join, resolve, sep } from "path";
+import { pathToFileURL } from "url";
+import { Worker } from "worker_threads";
+import type { A2gExecutionContext, CapabilityManifest, G2aVerdictResult } from "./types.js";
+import { A2gCapabilityError, A2gTimeoutError } from "./errors.js";
+
+const DEFAULT_PATH_ARGS = ["path", "paths", "file", "file_path", "filePath"];
+
+/**
+ * Check whether a path lies inside a filesystem scope.
+ * Scope entries are directories (a trailing "/**" or "/*" is ignored) or
+ * exact files; symlinks are resolved before comparing.
+ */
+export function isPathInScope(path: string, scope: string[]): boolean {
+    const target = realPath(resolve(path));
+    return scope.some((entry) => {
+        const root = realPath(resolve(entry.replace(/[/\\]\*\*?$/, "")));
+        return target === root || target.startsWith(root.endsWith(sep) ? root : root + sep);
+    });
+}
+
+/**
+ * Build the execution context handed to a governed tool.
+ */
+export function createExecutionContext(
+    verdict: G2aVerdictResult,
+    signal: AbortSignal
+): A2gExecutionContext {
+    const manifest = verdict.capability_manifest || {};
+
+    return {
+        verdict,
+        manifest,
+        signal,
+        assertPath(path: string): string {
+            const resolved = resolve(path);
+            if (manifest.filesystem_scope && !isPathInScope(resolved, manifest.filesystem_scope)) {
+                throw new A2gCapabilityError(
+                    "filesystem_scope",
+                    `Path ${resolved} is outside the approved filesystem scope (${manifest.filesystem_scope.join(", ")})`
+                );
+            }
+            return resolved;
+        },
+        assertNetwork(): void {
+            if (manifest.network_allowed === false) {
+                throw new A2gCapabilityError("network_allowed", "Network access is not allowed for this action");
+            }
+        },
+    };
+}
+
+/**
+ * Run an approved action under its capability manifest.
+ *
+ * Path arguments are checked against `filesystem_scope` before the action
+ * starts, and the action is aborted once the stricter of `timeoutMs` and
+ * `timeout_seconds` elapses, or when `signal` aborts.
+ *
+ * @throws A2gCapabilityError if an argument violates the manifest
+ * @throws A2gTimeoutError if the time budget runs out
+ */
+export async function enforceManifest<R>(
+    verdict: G2aVerdictResult,
+    args: Record<string, unknown>,
+    run: (context: A2gExecutionContext) => Promise<R> | R,
+    options: { timeoutMs?: number; pathArgs?: string[]; signal?: AbortSignal } = {}
+): Promise<R> {
+    const controller = new AbortController();
+    const context = createExecutionContext(verdict, controller.signal);
+
+    for (const name of options.pathArgs || DEFAULT_PATH_ARGS) {
+        const value = args[name];
+        const paths = Array.isArray(value) ? value : [value];
+        for (const path of paths) {
+            if (typeof path === "string") {
+                context.assertPath(path);
+            }
+        }
+    }
+
+    const timeoutMs = effectiveTimeout(options.timeoutMs, context.manifest);
+    const signal = options.signal;
+    if (timeoutMs === undefined && !signal) {
+        return run(context);
+    }
+    if (signal?.aborted) {
+        throw signal.reason;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+    try {
+        return await Promise.race([
+            Promise.resolve().then(() => run(context)),
+            new Promise<never>((_, reject) => {
+                if (timeoutMs !== undefined) {
+                    timer = setTimeout(() => {
+                        const err = new A2gTimeoutError(`Action did not finish within ${timeoutMs}ms`, timeoutMs);
+                        controller.abort(err);
+                        reject(err);
+                    }, timeoutMs);
+                }
+                if (signal) {
+                    onAbort = () => {
+                        controller.abort(signal.reason);
+                        reject(signal.reason);
+                    };
+                    signal.addEventListener("abort", onAbort, { once: true });
+                }
+            }),
+        ]);
+    } finally {
+        clearTimeout(timer);
+        if (onAbort) {
+            signal?.removeEventListener("abort", onAbort);
+        }
+    }
+}
+
+/**
+ * Run an exported function of a module in a worker thread, limited by the
+ * capability manifest: the heap is capped at `max_memory_mb` and the worker
+ * is terminated when the context's signal aborts.
+ * `max_cpu_percent` cannot be enforced per thread and is advisory.
+ *
+ * The function receives `args` (structured-cloned) and its result is
+ * structured-cloned back.
+ *
+ * @example
+ * ```typescript
+ * const resize = client.govern("resize_image", (args, ctx) =>
+ *     runInWorker(new URL("./resize.js", import.meta.url), "resize", args, ctx)
+ * );
+ * ```
+ */
+export function runInWorker<R = unknown>(
+    module: string | URL,
+    exportName: string,
+    args: unknown,
+    context: A2gExecutionContext
+): Promise<R> {
+    const moduleUrl = module instanceof URL
+        ? module.href
+        : isAbsolute(module) ? pathToFileURL(module).href : module;
+
+    const source = `
+        const { parentPort, workerData } = require("worker_threads");
+        import(workerData.moduleUrl)
+            .then((mod) => mod[workerData.exportName](workerData.args))
+            .then(
+                (result) => parentPort.postMessage({ ok: true, result }),
+                (err) => parentPort.postMessage({ ok: false, error: err && err.message ? err.message : String(err) })
+            );
+    `;
+
+    const memoryMb = context.manifest.max_memory_mb;
+    const worker = new Worker(source, {
+        eval: true,
+        workerData: { moduleUrl, exportName, args },
+        resourceLimits: memoryMb ? { maxOldGenerationSizeMb: memoryMb } : undefined,
+    });
+
+    return new Promise<R>((resolvePromise, reject) => {
+        const onAbort = () => {
+            worker.terminate();
+            reject(context.signal.reason ?? new Error("Action aborted"));
+        };
+        if (context.signal.aborted) {
+            onAbort();
+            return;
+        }
+        context.signal.addEventListener("abort", onAbort, { once: true });
+
+        const settle = () => context.signal.removeEventListener("abort", onAbort);
+
+        worker.once("message", (message: { ok: boolean; result?: R; error?: string }) => {
+            settle();
+            worker.terminate();
+            if (message.ok) {
+                resolvePromise(message.result as R);
+            } else {
+                reject(new Error(message.error));
+            }
+        });
+        worker.once("error", (err: Error & { code?: string }) => {
+            settle();
+            if (err.code === "ERR_WORKER_OUT_OF_MEMORY") {
+                reject(new A2gCapabilityError("max_memory_mb", `Action exceeded ${memoryMb} MB of memory`));
+            } else {
+                reject(err);
+            }
+        });
+        worker.once("exit", (code) => {
+            settle();
+            reject(new Error(`Worker exited with code ${code}`));
+        });
+    });
+}
+
+function effectiveTimeout(timeoutMs: number | undefined, manifest: CapabilityManifest): number | undefined {
+    const manifestMs = manifest.timeout_seconds !== undefined ? manifest.timeout_seconds * 1000 : undefined;
+    if (timeoutMs === undefined) return manifestMs;
+    if (manifestMs === undefined) return timeoutMs;
+    return Math.min(timeoutMs, manifestMs);
+}
+
+/**
+ * Resolve symlinks in the longest existing prefix of a path.
+ */
+function realPath(path: string): string {
+    try {
+        return realpathSync(path);
+    } catch {
+        const parent = dirname(path);
+        return parent === path ? path : join(realPath(parent), basename(path));
+    }
+}
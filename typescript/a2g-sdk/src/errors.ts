@@ -0,0 +1,145 @@
+import type { CapabilityManifest, G2aVerdictResult } from "./types.js";
+import { A2G_ERROR_CODES } from "./protocol.js";
+
+/**
+ * Base class of all errors thrown by the A2G SDK.
+ */
+export class A2gError extends Error {
+    constructor(message: string, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * The engine denied an intent.
+ */
+export class A2gDeniedError extends A2gError {
+    constructor(
+        readonly tool: string,
+        readonly verdict: G2aVerdictResult
+    ) {
+        super(`A2G denied ${tool} (risk ${verdict.risk_assessment.level}${formatThreats(verdict)})`);
+    }
+
+    get intentId(): string {
+        return this.verdict.intent_id;
+    }
+}
+
+/**
+ * The engine escalated an intent to a human and no decision arrived in
+ * time; the action was not run.
+ */
+export class A2gEscalatedError extends A2gError {
+    constructor(
+        readonly tool: string,
+        readonly verdict: G2aVerdictResult
+    ) {
+        super(`A2G escalated ${tool} for human review and it was not resolved (risk ${verdict.risk_assessment.level})`);
+    }
+
+    get intentId(): string {
+        return this.verdict.intent_id;
+    }
+}
+
+/**
+ * An operation did not finish in time.
+ */
+export class A2gTimeoutError extends A2gError {
+    constructor(
+        message: string,
+        readonly timeoutMs: number
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * The connection to the engine could not be opened, was lost, or was
+ * closed by the client; the request may not have reached the engine.
+ */
+export class A2gConnectionError extends A2gError {
+    constructor(
+        message: string,
+        /** Close code, if the connection closed (1000: closed intentionally) */
+        readonly closeCode?: number,
+        options?: { cause?: unknown }
+    ) {
+        super(message, options);
+    }
+}
+
+/**
+ * A governed tool tried to exceed its capability manifest, or the engine
+ * revoked its approval while it ran (capability "revoked").
+ */
+export class A2gCapabilityError extends A2gError {
+    constructor(
+        readonly capability: keyof CapabilityManifest | "revoked",
+        message: string
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * The engine answered with a JSON-RPC error.
+ */
+export class A2gRpcError extends A2gError {
+    constructor(
+        readonly code: number,
+        /** The JSON-RPC error message, without the code prefix of `message` */
+        readonly rpcMessage: string,
+        readonly data?: unknown
+    ) {
+        super(`A2G error ${code}: ${rpcMessage}`);
+    }
+}
+
+/**
+ * The engine rejected the agent's credentials: API key, handshake or
+ * intent signature.
+ */
+export class A2gAuthError extends A2gRpcError {}
+
+/**
+ * The engine could not process a message: malformed JSON-RPC, unknown
+ * method or invalid params. Retrying the same message will not help.
+ */
+export class A2gProtocolError extends A2gRpcError {}
+
+/**
+ * Which A2gRpcError subclass each engine error code maps to.
+ * Codes not listed map to A2gRpcError.
+ */
+export const A2G_ERROR_CLASSES: Readonly<Record<number, typeof A2gRpcError>> = {
+    [A2G_ERROR_CODES.PARSE_ERROR]: A2gProtocolError,
+    [A2G_ERROR_CODES.INVALID_REQUEST]: A2gProtocolError,
+    [A2G_ERROR_CODES.METHOD_NOT_FOUND]: A2gProtocolError,
+    [A2G_ERROR_CODES.INVALID_PARAMS]: A2gProtocolError,
+    [A2G_ERROR_CODES.UNAUTHORIZED]: A2gAuthError,
+    [A2G_ERROR_CODES.INVALID_SIGNATURE]: A2gAuthError,
+};
+
+/**
+ * Turn a JSON-RPC error object into the matching error class.
+ *
+ * @example
+ * ```typescript
+ * const response = await client.requestIntent("read_file", args);
+ * if (response.error) {
+ *     throw errorFromRpc(response.error); // e.g. A2gAuthError for -32002
+ * }
+ * ```
+ */
+export function errorFromRpc(error: { code: number; message: string; data?: unknown }): A2gRpcError {
+    const ErrorClass = A2G_ERROR_CLASSES[error.code] ?? A2gRpcError;
+    return new ErrorClass(error.code, error.message, error.data);
+}
+
+function formatThreats(verdict: G2aVerdictResult): string {
+    const threats = verdict.risk_assessment.threats;
+    return threats.length > 0 ? `: ${threats.join(", ")}` : "";
+}
@@ -1,2 +1,13 @@
 export * from "./types.js";
+export * from "./errors.js";
+export * from "./protocol.js";
+export * from "./validation.js";
+export * from "./enforcement.js";
+export * from "./offline.js";
+export * from "./ledger.js";
+export * from "./transport.js";
+export * from "./logging.js";
+export * from "./metrics.js";
 export * from "./client.js";
+export * from "./server.js";
+export * from "./mock-engine.js";
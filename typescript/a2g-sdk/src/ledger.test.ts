@@ -0,0 +1,83 @@
+/**
+ * AuditLedger chaining and failure handling.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { A2gError } from "./errors.js";
+import { AuditLedger, FileLedgerStore, MemoryLedgerStore } from "./ledger.js";
+
+const SIGNING_KEY = "b".repeat(64);
+
+describe("AuditLedger", () => {
+    it("chains concurrent appends in order", async () => {
+        const ledger = new AuditLedger(new MemoryLedgerStore(), "did:aeon:test-agent", SIGNING_KEY);
+
+        const records = await Promise.all([
+            ledger.append("intent", "i-1", { tool: "a" }),
+            ledger.append("verdict", "i-1", { verdict: "APPROVED" }),
+            ledger.append("report", "i-1", { status: "SUCCESS" }),
+        ]);
+
+        assert.deepEqual(records.map(r => r.seq), [0, 1, 2]);
+        assert.equal(records[2].prev_hash, records[1].hash);
+        assert.equal((await ledger.verify()).ok, true);
+    });
+
+    it("continues the chain of an existing file", async () => {
+        const path = join(await fs.mkdtemp(join(tmpdir(), "a2g-ledger-")), "audit.jsonl");
+        await new AuditLedger(new FileLedgerStore(path), "did:aeon:test-agent", SIGNING_KEY)
+            .append("intent", "i-1", {});
+
+        const reopened = new AuditLedger(new FileLedgerStore(path), "did:aeon:test-agent", SIGNING_KEY);
+        const record = await reopened.append("intent", "i-2", {});
+
+        assert.equal(record.seq, 1);
+        assert.equal((await reopened.verify()).ok, true);
+    });
+
+    it("refuses to append after a torn last record", async () => {
+        const path = join(await fs.mkdtemp(join(tmpdir(), "a2g-ledger-")), "audit.jsonl");
+        const ledger = new AuditLedger(new FileLedgerStore(path), "did:aeon:test-agent", SIGNING_KEY);
+        await ledger.append("intent", "i-1", {});
+        await fs.appendFile(path, '{"seq":1,"ty');
+
+        const torn = new AuditLedger(new FileLedgerStore(path), "did:aeon:test-agent", SIGNING_KEY);
+        await assert.rejects(torn.append("intent", "i-2", {}), A2gError);
+    });
+
+    it("reads an unparseable line as null and reports it", async () => {
+        const path = join(await fs.mkdtemp(join(tmpdir(), "a2g-ledger-")), "audit.jsonl");
+        const store = new FileLedgerStore(path);
+        const ledger = new AuditLedger(store, "did:aeon:test-agent", SIGNING_KEY);
+        await ledger.append("intent", "i-1", {});
+        await fs.appendFile(path, "not json\n");
+        await ledger.append("intent", "i-2", {});
+
+        const records = await store.read();
+        const result = await ledger.verify();
+
+        assert.equal(records[1], null);
+        assert.equal(result.ok, false);
+        assert.deepEqual(result.issues[0], { index: 1, kind: "hash-mismatch", reason: "Record is not valid JSON" });
+    });
+
+    it("rejects the append when the head cannot be read, and reads it again next time", async () => {
+        const store = new MemoryLedgerStore();
+        const last = store.last.bind(store);
+        let failures = 1;
+        store.last = async () => {
+            if (failures-- > 0) throw new Error("disk unavailable");
+            return last();
+        };
+        const ledger = new AuditLedger(store, "did:aeon:test-agent", SIGNING_KEY);
+
+        await assert.rejects(ledger.append("intent", "i-1", {}), /disk unavailable/);
+        const record = await ledger.append("intent", "i-2", {});
+
+        assert.equal(record.seq, 0);
+    });
+});
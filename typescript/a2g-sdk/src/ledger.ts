@@ -0,0 +1,209 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import { Signer, canonicalize } from "@aeon/did-sdk";
+import type { KeyType } from "@aeon/did-sdk";
+import type { LedgerIssueKind, LedgerRecord, LedgerStore, LedgerVerification } from "./types.js";
+import { A2gError } from "./errors.js";
+
+const GENESIS_HASH = "0".repeat(64);
+
+/**
+ * Ledger records kept in memory.
+ */
+export class MemoryLedgerStore implements LedgerStore {
+    private records: LedgerRecord[] = [];
+
+    async append(record: LedgerRecord): Promise<void> {
+        this.records.push(record);
+    }
+
+    async read(): Promise<LedgerRecord[]> {
+        return [...this.records];
+    }
+
+    async last(): Promise<LedgerRecord | null> {
+        return this.records[this.records.length - 1] ?? null;
+    }
+}
+
+/**
+ * Ledger records in a JSON Lines file with owner-only permissions.
+ */
+export class FileLedgerStore implements LedgerStore {
+    constructor(private path: string) {}
+
+    async append(record: LedgerRecord): Promise<void> {
+        await fs.mkdir(dirname(this.path), { recursive: true, mode: 0o700 });
+        await fs.appendFile(this.path, JSON.stringify(record) + "\n", { mode: 0o600 });
+    }
+
+    async read(): Promise<(LedgerRecord | null)[]> {
+        let content: string;
+        try {
+            content = await fs.readFile(this.path, "utf-8");
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+            throw err;
+        }
+        // Unparseable lines are kept as null so verifyLedger reports them
+        const records: (LedgerRecord | null)[] = [];
+        for (const line of content.split("\n")) {
+            if (!line.trim()) continue;
+            try {
+                records.push(JSON.parse(line) as LedgerRecord);
+            } catch {
+                records.push(null);
+            }
+        }
+        return records;
+    }
+
+    /**
+     * @throws A2gError if the last line is not a record (e.g. a torn write);
+     * appending after it would restart the chain
+     */
+    async last(): Promise<LedgerRecord | null> {
+        const records = await this.read();
+        if (records.length === 0) return null;
+
+        const last = records[records.length - 1];
+        if (!last) {
+            throw new A2gError(`Ledger ${this.path} ends with an unreadable record; repair it before appending`);
+        }
+        return last;
+    }
+}
+
+/**
+ * Writes signed, hash-chained ledger records. Appends are serialized, so
+ * records keep their order even when written concurrently. The chain
+ * continues from the store's last record, read on the first append.
+ */
+export class AuditLedger {
+    // Last record written; undefined until read from the store
+    private tail: Promise<LedgerRecord | null | undefined> = Promise.resolve(undefined);
+
+    constructor(
+        readonly store: LedgerStore,
+        private agentDid: string,
+        private signingKey: string,
+        private keyType?: KeyType
+    ) {}
+
+    /**
+     * @throws if the store's head cannot be read or the record cannot be written
+     */
+    append(type: LedgerRecord["type"], intentId: string, message: unknown): Promise<LedgerRecord> {
+        let head: LedgerRecord | null | undefined;
+        const next = this.tail.then(async (known) => {
+            head = known === undefined ? await this.store.last() : known;
+            const previous = head;
+            const unsigned = {
+                seq: previous ? previous.seq + 1 : 0,
+                type,
+                agent_did: this.agentDid,
+                intent_id: intentId,
+                recorded_at: new Date().toISOString(),
+                // Stored as JSON, so hash what a reader will see
+                message: JSON.parse(JSON.stringify(message ?? null)),
+                prev_hash: previous ? previous.hash : GENESIS_HASH,
+            };
+            const hash = hashRecord(unsigned);
+            const record: LedgerRecord = {
+                ...unsigned,
+                hash,
+                signature: Signer.sign(this.signingKey, hash, { keyType: this.keyType }),
+            };
+            await this.store.append(record);
+            return record;
+        });
+        // A failed append leaves the previous head in place (or, if it could
+        // not be read, reads it again next time)
+        this.tail = next.catch(() => head);
+        return next;
+    }
+
+    /**
+     * Verify this ledger with the key it was written with.
+     */
+    async verify(): Promise<LedgerVerification> {
+        const key = this.keyType === "ed25519" ? Signer.derivePublicKey(this.signingKey) : this.signingKey;
+        return verifyLedger(await this.store.read(), { key, keyType: this.keyType });
+    }
+}
+
+/**
+ * Check a ledger for tampering: every hash must match its record, link to
+ * its predecessor, follow without sequence gaps and carry a valid signature.
+ *
+ * @param options.key - HMAC key or Ed25519 public key of the agent (signatures are not checked without it)
+ * @param options.expectedHead - Last hash known from elsewhere, to detect truncation
+ *
+ * @example
+ * ```typescript
+ * const result = await verifyLedger(new FileLedgerStore("audit.jsonl"), {
+ *     key: agentPublicKey,
+ *     keyType: "ed25519",
+ * });
+ * if (!result.ok) console.error(result.issues);
+ * ```
+ */
+export async function verifyLedger(
+    ledger: (LedgerRecord | null)[] | LedgerStore,
+    options: { key?: string; keyType?: KeyType; expectedHead?: string } = {}
+): Promise<LedgerVerification> {
+    const records = Array.isArray(ledger) ? ledger : await ledger.read();
+    const issues: LedgerVerification["issues"] = [];
+    const report = (index: number, kind: LedgerIssueKind, reason: string) => {
+        issues.push({ index, kind, reason });
+    };
+
+    let previous: LedgerRecord | null = null;
+    records.forEach((record, index) => {
+        if (!record || typeof record !== "object") {
+            report(index, "hash-mismatch", "Record is not valid JSON");
+            return;
+        }
+
+        const { hash, signature, ...unsigned } = record;
+        if (hashRecord(unsigned) !== hash) {
+            report(index, "hash-mismatch", `Record ${record.seq} does not match its hash`);
+        }
+
+        const expectedSeq = previous ? previous.seq + 1 : 0;
+        if (record.seq !== expectedSeq) {
+            report(index, "gap", `Expected seq ${expectedSeq}, found ${record.seq}`);
+        }
+
+        const expectedPrev = previous ? previous.hash : GENESIS_HASH;
+        if (record.prev_hash !== expectedPrev) {
+            report(index, "broken-chain", `Record ${record.seq} does not link to the previous record`);
+        }
+
+        if (options.key) {
+            const result = signature
+                ? Signer.verifyDetailed(options.key, signature, hash, {
+                    keyType: options.keyType,
+                    maxAgeMs: Infinity,
+                    nonceStore: false,
+                })
+                : null;
+            if (!result?.ok) {
+                report(index, "bad-signature", `Record ${record.seq}: ${result ? result.reason : "missing signature"}`);
+            }
+        }
+        previous = record;
+    });
+
+    const head = records.length > 0 ? records[records.length - 1]?.hash : undefined;
+    if (options.expectedHead !== undefined && head !== options.expectedHead) {
+        report(records.length, "head-mismatch", "Ledger does not end at the expected hash (records missing or appended)");
+    }
+
+    return { ok: issues.length === 0, count: records.length, head, issues };
+}
+
+function hashRecord(unsigned: Omit<LedgerRecord, "hash" | "signature">): string {
+    return createHash("sha256").update(canonicalize(unsigned)).digest("hex");
+}
@@ -0,0 +1,219 @@
+/**
+ * Loggers, the default log output and trace context propagation.
+ */
+
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { A2gClient } from "./client.js";
+import { consoleLogger, jsonLogger, silentLogger, traceparent } from "./logging.js";
+import { MockAeonEngine } from "./mock-engine.js";
+import { A2G_ERROR_CODES } from "./protocol.js";
+import type { A2gSpan, A2gTracer } from "./types.js";
+
+const TRACE_ID = "4bf92f3577b34da6a3ce929d0e0e4736";
+const SPAN_ID = "00f067aa0ba902b7";
+
+/**
+ * Captures text written to stdout, stderr and the console. Binary chunks
+ * (the test runner's own reports) still go through.
+ */
+function captureOutput(): { stdout: string[]; stderr: string[]; console: unknown[][] } {
+    const output = { stdout: [] as string[], stderr: [] as string[], console: [] as unknown[][] };
+    for (const stream of ["stdout", "stderr"] as const) {
+        const write = process[stream].write.bind(process[stream]) as (...args: unknown[]) => boolean;
+        mock.method(process[stream], "write", (chunk: unknown, ...rest: unknown[]) =>
+            typeof chunk === "string" ? output[stream].push(chunk) > 0 : write(chunk, ...rest)
+        );
+    }
+    for (const method of ["debug", "log", "info", "warn", "error"] as const) {
+        mock.method(console, method, (...args: unknown[]) => output.console.push(args));
+    }
+    return output;
+}
+
+interface RecordedSpan extends A2gSpan {
+    name: string;
+    attributes: Record<string, string | number | boolean>;
+    status?: { code: number; message?: string };
+    exceptions: Error[];
+    ended: boolean;
+}
+
+function recordingTracer(): A2gTracer & { spans: RecordedSpan[] } {
+    const spans: RecordedSpan[] = [];
+    return {
+        spans,
+        startSpan(name, options) {
+            const span: RecordedSpan = {
+                name,
+                attributes: { ...options?.attributes },
+                exceptions: [],
+                ended: false,
+                setAttribute(key, value) {
+                    span.attributes[key] = value;
+                },
+                setStatus(status) {
+                    span.status = status;
+                },
+                recordException(exception) {
+                    span.exceptions.push(exception);
+                },
+                spanContext: () => ({
+                    traceId: TRACE_ID,
+                    spanId: SPAN_ID,
+                    traceFlags: 1,
+                    traceState: { serialize: () => "aeon=1" },
+                }),
+                end() {
+                    span.ended = true;
+                },
+            };
+            spans.push(span);
+            return span;
+        },
+    };
+}
+
+describe("loggers", () => {
+    afterEach(() => mock.restoreAll());
+
+    it("jsonLogger writes one JSON line per entry, warnings to stderr", () => {
+        const output = captureOutput();
+        const logger = jsonLogger();
+
+        logger.info("A2G connected", { url: "wss://engine", skipped: undefined });
+        logger.error("A2G failed", { error: new Error("boom") });
+        mock.restoreAll();
+
+        const info = JSON.parse(output.stdout[0]);
+        assert.equal(output.stdout.length, 1);
+        assert.equal(info.level, "info");
+        assert.equal(info.msg, "A2G connected");
+        assert.equal(info.url, "wss://engine");
+        assert.equal("skipped" in info, false);
+        assert.ok(!Number.isNaN(Date.parse(info.time)));
+        assert.deepEqual(
+            { ...JSON.parse(output.stderr[0]), time: undefined },
+            { level: "error", time: undefined, msg: "A2G failed", error: "boom" }
+        );
+    });
+
+    it("jsonLogger drops entries below its minimum level", () => {
+        const output = captureOutput();
+        const logger = jsonLogger("warn");
+
+        logger.debug("debug");
+        logger.info("info");
+        logger.warn("warn");
+        mock.restoreAll();
+
+        assert.deepEqual(output.stdout, []);
+        assert.equal(output.stderr.length, 1);
+    });
+
+    it("silentLogger writes nothing", () => {
+        const output = captureOutput();
+
+        for (const level of ["debug", "info", "warn", "error"] as const) {
+            silentLogger[level]("message", { a: 1 });
+        }
+        mock.restoreAll();
+
+        assert.deepEqual(output, { stdout: [], stderr: [], console: [] });
+    });
+
+    it("consoleLogger formats the message with its fields", () => {
+        const output = captureOutput();
+
+        consoleLogger.warn("A2G reconnecting", { attempt: 2, url: "wss://engine" });
+        mock.restoreAll();
+
+        assert.deepEqual(output.console, [["⚠️  A2G reconnecting (attempt=2 url=wss://engine)"]]);
+    });
+});
+
+describe("A2gClient logging and tracing", () => {
+    let engine: MockAeonEngine;
+    let client: A2gClient | undefined;
+
+    beforeEach(async () => {
+        engine = new MockAeonEngine();
+        await engine.start();
+    });
+
+    afterEach(async () => {
+        mock.restoreAll();
+        client?.disconnect();
+        client = undefined;
+        await engine.stop();
+    });
+
+    it("logs only warnings, as JSON on stderr, by default", async () => {
+        const output = captureOutput();
+        client = new A2gClient(engine.url, "did:aeon:test-agent");
+
+        await client.connect();
+        await client.requestIntent("read_file", {});
+        // An unencrypted connection to another host is worth a warning
+        new A2gClient("ws://engine.example:3000", "did:aeon:test-agent");
+        mock.restoreAll();
+
+        assert.deepEqual(output.stdout, []);
+        assert.deepEqual(output.console, []);
+        assert.equal(output.stderr.length, 1);
+        const warning = JSON.parse(output.stderr[0]);
+        assert.equal(warning.level, "warn");
+        assert.match(warning.msg, /unencrypted connection/);
+    });
+
+    it("formats traceparent from the span context", () => {
+        const span = recordingTracer().startSpan("a2g.intent");
+
+        assert.equal(traceparent(span), `00-${TRACE_ID}-${SPAN_ID}-01`);
+    });
+
+    it("propagates the span's trace context in the intent", async () => {
+        const tracer = recordingTracer();
+        client = new A2gClient(engine.url, "did:aeon:test-agent", { logger: silentLogger, tracer });
+        await client.connect();
+
+        await client.requestIntent("read_file", {});
+
+        const context = engine.intents[0].params.context;
+        assert.equal(context?.traceparent, `00-${TRACE_ID}-${SPAN_ID}-01`);
+        assert.equal(context?.tracestate, "aeon=1");
+    });
+
+    it("records the verdict on the span and ends it", async () => {
+        const tracer = recordingTracer();
+        client = new A2gClient(engine.url, "did:aeon:test-agent", { logger: silentLogger, tracer });
+        await client.connect();
+        engine.enqueue({ verdict: "DENIED", risk_assessment: { score: 80, level: "HIGH" } });
+
+        const verdict = await client.requestIntent("delete_file", {});
+
+        const [span] = tracer.spans;
+        assert.equal(span.name, "a2g.intent");
+        assert.equal(span.ended, true);
+        assert.equal(span.attributes["a2g.tool"], "delete_file");
+        assert.equal(span.attributes["a2g.intent_id"], verdict.result?.intent_id);
+        assert.equal(span.attributes["a2g.verdict"], "DENIED");
+        assert.equal(span.attributes["a2g.risk_level"], "HIGH");
+        assert.equal(span.attributes["a2g.risk_score"], 80);
+    });
+
+    it("records a failed intent as an error span", async () => {
+        const tracer = recordingTracer();
+        client = new A2gClient(engine.url, "did:aeon:test-agent", { logger: silentLogger, tracer, strict: true });
+        await client.connect();
+        engine.enqueue({ error: { code: A2G_ERROR_CODES.INTERNAL_ERROR, message: "engine exploded" } });
+
+        await assert.rejects(client.requestIntent("read_file", {}));
+
+        const [span] = tracer.spans;
+        assert.equal(span.ended, true);
+        assert.equal(span.status?.code, 2);
+        assert.equal(span.attributes["a2g.error_code"], A2G_ERROR_CODES.INTERNAL_ERROR);
+        assert.equal(span.exceptions.length, 1);
+    });
+});
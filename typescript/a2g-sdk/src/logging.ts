@@ -0,0 +1,68 @@
+import type { A2gLogFields, A2gLogger, A2gSpan } from "./types.js";
+
+const ICONS = { debug: "🔍", info: "🛡️ ", warn: "⚠️ ", error: "❌" } as const;
+
+/**
+ * Human-readable console output with icons, for local development.
+ */
+export const consoleLogger: A2gLogger = {
+    debug: (message, fields) => console.debug(format("debug", message, fields)),
+    info: (message, fields) => console.log(format("info", message, fields)),
+    warn: (message, fields) => console.warn(format("warn", message, fields)),
+    error: (message, fields) => console.error(format("error", message, fields)),
+};
+
+/**
+ * Discards everything.
+ */
+export const silentLogger: A2gLogger = {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: () => {},
+};
+
+/**
+ * One JSON object per line on stdout (stderr for warn and error), for log pipelines.
+ * The client default is `jsonLogger("warn")`: only warnings and errors, on
+ * stderr, so stdout stays free (e.g. for StdioTransport).
+ *
+ * @example
+ * ```typescript
+ * new A2gClient(url, did.did, { logger: jsonLogger() });
+ * // {"level":"info","time":"...","msg":"A2G connected","url":"wss://...","agent_did":"did:aeon:..."}
+ * ```
+ */
+export function jsonLogger(minLevel: keyof typeof ICONS = "info"): A2gLogger {
+    const levels = Object.keys(ICONS) as (keyof typeof ICONS)[];
+    const write = (level: keyof typeof ICONS) => (message: string, fields?: A2gLogFields) => {
+        if (levels.indexOf(level) < levels.indexOf(minLevel)) return;
+        const line = JSON.stringify({ level, time: new Date().toISOString(), msg: message, ...serializeFields(fields) });
+        (level === "warn" || level === "error" ? process.stderr : process.stdout).write(line + "\n");
+    };
+    return { debug: write("debug"), info: write("info"), warn: write("warn"), error: write("error") };
+}
+
+/**
+ * W3C `traceparent` header value for a span.
+ */
+export function traceparent(span: A2gSpan): string {
+    const { traceId, spanId, traceFlags } = span.spanContext();
+    return `00-${traceId}-${spanId}-${traceFlags.toString(16).padStart(2, "0")}`;
+}
+
+function format(level: keyof typeof ICONS, message: string, fields?: A2gLogFields): string {
+    const details = Object.entries(serializeFields(fields))
+        .map(([key, value]) => `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`)
+        .join(" ");
+    return `${ICONS[level]} ${message}${details ? ` (${details})` : ""}`;
+}
+
+function serializeFields(fields?: A2gLogFields): A2gLogFields {
+    const out: A2gLogFields = {};
+    for (const [key, value] of Object.entries(fields || {})) {
+        if (value === undefined) continue;
+        out[key] = value instanceof Error ? value.message : value;
+    }
+    return out;
+}
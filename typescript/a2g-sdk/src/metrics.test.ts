@@ -0,0 +1,161 @@
+/**
+ * A2gMetricsRecorder counters and histograms, and the Prometheus exporter.
+ */
+
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { A2gClient } from "./client.js";
+import { silentLogger } from "./logging.js";
+import { A2gMetricsRecorder, formatPrometheus } from "./metrics.js";
+import { MockAeonEngine } from "./mock-engine.js";
+import { A2G_ERROR_CODES } from "./protocol.js";
+import type { G2aVerdict } from "./types.js";
+
+function verdict(result: Partial<NonNullable<G2aVerdict["result"]>> = {}): G2aVerdict {
+    return {
+        jsonrpc: "2.0",
+        id: "request-1",
+        result: {
+            verdict: "APPROVED",
+            intent_id: "intent-1",
+            risk_assessment: { score: 0, level: "LOW", threats: [] },
+            ...result,
+        },
+    };
+}
+
+describe("A2gMetricsRecorder", () => {
+    it("keeps a cumulative latency histogram per method", () => {
+        const metrics = new A2gMetricsRecorder([100, 10, 50]);
+
+        metrics.observeLatency("a2g/intent", 5);
+        metrics.observeLatency("a2g/intent", 50);
+        metrics.observeLatency("a2g/intent", 500);
+        metrics.observeLatency("a2g/status", 20);
+
+        const { request_latency_ms } = metrics.snapshot("did:aeon:agent", true);
+        assert.deepEqual(request_latency_ms, {
+            "a2g/intent": { bounds: [10, 50, 100], buckets: [1, 2, 2], sum: 555, count: 3 },
+            "a2g/status": { bounds: [10, 50, 100], buckets: [0, 1, 1], sum: 20, count: 1 },
+        });
+    });
+
+    it("counts verdicts per tool, risk levels, local decisions and errors", () => {
+        const metrics = new A2gMetricsRecorder();
+
+        metrics.recordVerdict("read_file", verdict());
+        metrics.recordVerdict("read_file", verdict({ decided_locally: true }));
+        metrics.recordVerdict("delete_file", verdict({ verdict: "DENIED", risk_assessment: { score: 90, level: "CRITICAL", threats: [] } }));
+        metrics.recordVerdict("delete_file", { jsonrpc: "2.0", id: "request-2", error: { code: -32603, message: "boom" } });
+
+        const snapshot = metrics.snapshot("did:aeon:agent", false);
+        assert.deepEqual(snapshot.verdicts, { read_file: { APPROVED: 2 }, delete_file: { DENIED: 1 } });
+        assert.deepEqual(snapshot.risk_levels, { LOW: 2, CRITICAL: 1 });
+        assert.equal(snapshot.local_decisions, 1);
+        assert.equal(snapshot.request_errors, 1);
+        assert.equal(snapshot.connected, false);
+    });
+
+    it("returns snapshots that later recordings do not change", () => {
+        const metrics = new A2gMetricsRecorder([10]);
+        metrics.observeLatency("a2g/intent", 5);
+        metrics.recordVerdict("read_file", verdict());
+        const before = metrics.snapshot("did:aeon:agent", true);
+
+        metrics.observeLatency("a2g/intent", 5);
+        metrics.recordVerdict("read_file", verdict());
+        metrics.increment("timeouts");
+
+        assert.deepEqual(before.request_latency_ms["a2g/intent"].buckets, [1]);
+        assert.deepEqual(before.verdicts, { read_file: { APPROVED: 1 } });
+        assert.equal(before.timeouts, 0);
+    });
+});
+
+describe("formatPrometheus", () => {
+    it("renders histograms, labelled counters and the connection gauge", () => {
+        const metrics = new A2gMetricsRecorder([10, 100]);
+        metrics.observeLatency("a2g/intent", 42);
+        metrics.recordVerdict("read_file", verdict());
+        metrics.increment("reconnect_attempts");
+
+        const text = formatPrometheus(metrics.snapshot("did:aeon:agent", true));
+
+        const lines = text.split("\n");
+        const agent = 'agent_did="did:aeon:agent"';
+        assert.ok(text.endsWith("\n"));
+        assert.ok(lines.includes("# TYPE a2g_request_latency_ms histogram"));
+        assert.ok(lines.includes(`a2g_request_latency_ms_bucket{${agent},method="a2g/intent",le="10"} 0`));
+        assert.ok(lines.includes(`a2g_request_latency_ms_bucket{${agent},method="a2g/intent",le="100"} 1`));
+        assert.ok(lines.includes(`a2g_request_latency_ms_bucket{${agent},method="a2g/intent",le="+Inf"} 1`));
+        assert.ok(lines.includes(`a2g_request_latency_ms_sum{${agent},method="a2g/intent"} 42`));
+        assert.ok(lines.includes(`a2g_request_latency_ms_count{${agent},method="a2g/intent"} 1`));
+        assert.ok(lines.includes(`a2g_verdicts_total{${agent},tool="read_file",verdict="APPROVED"} 1`));
+        assert.ok(lines.includes(`a2g_risk_levels_total{${agent},level="LOW"} 1`));
+        assert.ok(lines.includes(`a2g_reconnect_attempts_total{${agent}} 1`));
+        assert.ok(lines.includes(`a2g_connected{${agent}} 1`));
+    });
+
+    it("writes each family header once for several clients, under the given prefix", () => {
+        const snapshots = ["did:aeon:a", "did:aeon:b"].map((did) => new A2gMetricsRecorder().snapshot(did, false));
+
+        const lines = formatPrometheus(snapshots, "agents").split("\n");
+
+        assert.equal(lines.filter((line) => line === "# TYPE agents_connected gauge").length, 1);
+        assert.ok(lines.includes('agents_connected{agent_did="did:aeon:a"} 0'));
+        assert.ok(lines.includes('agents_connected{agent_did="did:aeon:b"} 0'));
+    });
+
+    it("escapes backslashes, quotes and newlines in label values", () => {
+        const metrics = new A2gMetricsRecorder();
+        metrics.recordVerdict('odd"tool\\\n', verdict());
+
+        const text = formatPrometheus(metrics.snapshot("did:aeon:agent", true));
+
+        assert.ok(text.includes('tool="odd\\"tool\\\\\\n"'));
+    });
+});
+
+describe("A2gClient metrics", () => {
+    let engine: MockAeonEngine;
+    let client: A2gClient;
+
+    beforeEach(async () => {
+        engine = new MockAeonEngine();
+        client = new A2gClient(await engine.start(), "did:aeon:test-agent", { logger: silentLogger, requestTimeoutMs: 200 });
+        await client.connect();
+    });
+
+    afterEach(async () => {
+        client.disconnect();
+        await engine.stop();
+    });
+
+    it("records the latency of single and batched requests by method", async () => {
+        await client.requestIntent("read_file", {});
+        await client.requestIntents([
+            { tool: "read_file", args: {} },
+            { tool: "list_files", args: {} },
+        ]);
+
+        const { request_latency_ms, verdicts } = client.getMetrics();
+        assert.deepEqual(Object.keys(request_latency_ms), ["a2g/intent"]);
+        assert.equal(request_latency_ms["a2g/intent"].count, 3);
+        assert.deepEqual(verdicts, { read_file: { APPROVED: 2 }, list_files: { APPROVED: 1 } });
+    });
+
+    it("counts error responses and leaves unanswered requests out of the latency", async () => {
+        engine.enqueue({ error: { code: A2G_ERROR_CODES.INTERNAL_ERROR, message: "engine exploded" } });
+        await client.requestIntent("read_file", {});
+        engine.enqueue({ delayMs: 1000 });
+
+        await assert.rejects(client.requestIntent("read_file", {}));
+
+        const metrics = client.getMetrics();
+        assert.equal(metrics.request_errors, 1);
+        assert.equal(metrics.timeouts, 1);
+        assert.equal(metrics.request_latency_ms["a2g/intent"].count, 1);
+        assert.equal(metrics.connected, true);
+        assert.equal(metrics.connections, 1);
+    });
+});
@@ -0,0 +1,146 @@
+import type { A2gHistogramSnapshot, A2gMetricsSnapshot, G2aVerdict } from "./types.js";
+
+/**
+ * Default latency buckets in milliseconds.
+ */
+export const DEFAULT_LATENCY_BUCKETS_MS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+type Counters = Omit<A2gMetricsSnapshot, "agent_did" | "request_latency_ms" | "verdicts" | "risk_levels" | "connected">;
+
+/**
+ * Collects the counters behind `A2gClient.getMetrics()`.
+ */
+export class A2gMetricsRecorder {
+    private bounds: number[];
+    private latency = new Map<string, A2gHistogramSnapshot>();
+    private verdicts: A2gMetricsSnapshot["verdicts"] = {};
+    private riskLevels: A2gMetricsSnapshot["risk_levels"] = {};
+    private counters: Counters = {
+        local_decisions: 0,
+        request_errors: 0,
+        timeouts: 0,
+        connections: 0,
+        disconnects: 0,
+        reconnect_attempts: 0,
+        reconnect_failures: 0,
+        reconnects_exhausted: 0,
+    };
+
+    constructor(bounds: number[] = DEFAULT_LATENCY_BUCKETS_MS) {
+        this.bounds = [...bounds].sort((a, b) => a - b);
+    }
+
+    /** Record the round-trip time of a request answered by the engine */
+    observeLatency(method: string, ms: number): void {
+        let histogram = this.latency.get(method);
+        if (!histogram) {
+            histogram = { bounds: this.bounds, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+            this.latency.set(method, histogram);
+        }
+        histogram.sum += ms;
+        histogram.count++;
+        this.bounds.forEach((bound, i) => {
+            if (ms <= bound) histogram.buckets[i]++;
+        });
+    }
+
+    recordVerdict(tool: string, verdict: G2aVerdict): void {
+        if (verdict.error) {
+            this.counters.request_errors++;
+            return;
+        }
+        const result = verdict.result;
+        if (!result) return;
+
+        const perTool = (this.verdicts[tool] ??= {});
+        perTool[result.verdict] = (perTool[result.verdict] ?? 0) + 1;
+        const level = result.risk_assessment.level;
+        this.riskLevels[level] = (this.riskLevels[level] ?? 0) + 1;
+        if (result.decided_locally) {
+            this.counters.local_decisions++;
+        }
+    }
+
+    increment(counter: keyof Counters): void {
+        this.counters[counter]++;
+    }
+
+    snapshot(agentDid: string, connected: boolean): A2gMetricsSnapshot {
+        return {
+            agent_did: agentDid,
+            request_latency_ms: Object.fromEntries([...this.latency].map(([method, histogram]) => [method, {
+                ...histogram,
+                bounds: [...histogram.bounds],
+                buckets: [...histogram.buckets],
+            }])),
+            verdicts: Object.fromEntries(Object.entries(this.verdicts).map(([tool, counts]) => [tool, { ...counts }])),
+            risk_levels: { ...this.riskLevels },
+            ...this.counters,
+            connected,
+        };
+    }
+}
+
+/**
+ * Render metrics snapshots in the Prometheus text exposition format.
+ * Every series is labelled with `agent_did`.
+ *
+ * @example
+ * ```typescript
+ * http.createServer((req, res) => {
+ *     res.setHeader("Content-Type", "text/plain; version=0.0.4");
+ *     res.end(formatPrometheus(client.getMetrics()));
+ * });
+ * ```
+ */
+export function formatPrometheus(snapshots: A2gMetricsSnapshot | A2gMetricsSnapshot[], prefix = "a2g"): string {
+    const all = Array.isArray(snapshots) ? snapshots : [snapshots];
+    const lines: string[] = [];
+    const family = (name: string, type: string, help: string, samples: (m: A2gMetricsSnapshot) => string[]) => {
+        lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} ${type}`);
+        for (const snapshot of all) {
+            lines.push(...samples(snapshot));
+        }
+    };
+    const sample = (name: string, labels: Record<string, string>, value: number) =>
+        `${prefix}_${name}{${Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(",")}} ${value}`;
+    const counter = (name: string, help: string, key: keyof Counters) =>
+        family(name, "counter", help, (m) => [sample(name, { agent_did: m.agent_did }, m[key])]);
+
+    family("request_latency_ms", "histogram", "Round-trip time of requests answered by the engine, by method.", (m) =>
+        Object.entries(m.request_latency_ms).flatMap(([method, h]) => {
+            const labels = { agent_did: m.agent_did, method };
+            return [
+                ...h.bounds.map((bound, i) => sample("request_latency_ms_bucket", { ...labels, le: String(bound) }, h.buckets[i])),
+                sample("request_latency_ms_bucket", { ...labels, le: "+Inf" }, h.count),
+                sample("request_latency_ms_sum", labels, h.sum),
+                sample("request_latency_ms_count", labels, h.count),
+            ];
+        })
+    );
+    family("verdicts_total", "counter", "Verdicts received, by tool and verdict.", (m) =>
+        Object.entries(m.verdicts).flatMap(([tool, counts]) =>
+            Object.entries(counts).map(([verdict, n]) => sample("verdicts_total", { agent_did: m.agent_did, tool, verdict }, n ?? 0))
+        )
+    );
+    family("risk_levels_total", "counter", "Verdicts received, by risk level.", (m) =>
+        Object.entries(m.risk_levels).map(([level, n]) => sample("risk_levels_total", { agent_did: m.agent_did, level }, n ?? 0))
+    );
+    counter("local_decisions_total", "Intents decided by the local policy while the engine was unreachable.", "local_decisions");
+    counter("request_errors_total", "JSON-RPC error responses to intents.", "request_errors");
+    counter("timeouts_total", "Requests and connection attempts that timed out.", "timeouts");
+    family("connected", "gauge", "Whether the client is connected (1) or not (0).", (m) =>
+        [sample("connected", { agent_did: m.agent_did }, m.connected ? 1 : 0)]
+    );
+    counter("connections_total", "Connections opened.", "connections");
+    counter("disconnects_total", "Connections closed.", "disconnects");
+    counter("reconnect_attempts_total", "Automatic reconnection attempts.", "reconnect_attempts");
+    counter("reconnect_failures_total", "Automatic reconnection attempts that failed.", "reconnect_failures");
+    counter("reconnects_exhausted_total", "Times auto-reconnect gave up.", "reconnects_exhausted");
+
+    return lines.join("\n") + "\n";
+}
+
+function escapeLabel(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
@@ -0,0 +1,56 @@
+/**
+ * MockAeonEngine on raw frames: non-request messages and batch members.
+ */
+
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { once } from "events";
+import WebSocket from "ws";
+import { MockAeonEngine } from "./mock-engine.js";
+import { A2G_ERROR_CODES } from "./protocol.js";
+
+const INVALID_REQUEST = { jsonrpc: "2.0", id: null, error: { code: A2G_ERROR_CODES.INVALID_REQUEST, message: "Invalid request" } };
+
+describe("MockAeonEngine", () => {
+    let engine: MockAeonEngine;
+    let ws: WebSocket;
+
+    beforeEach(async () => {
+        engine = new MockAeonEngine();
+        ws = new WebSocket(await engine.start());
+        await once(ws, "open");
+    });
+
+    afterEach(async () => {
+        ws.close();
+        await engine.stop();
+    });
+
+    async function exchange(frame: string): Promise<unknown> {
+        ws.send(frame);
+        const [data] = await once(ws, "message");
+        return JSON.parse(data.toString());
+    }
+
+    it("rejects null and primitive frames with INVALID_REQUEST", async () => {
+        for (const frame of ["null", "42", '"a2g/intent"', "true"]) {
+            assert.deepStrictEqual(await exchange(frame), INVALID_REQUEST, frame);
+        }
+    });
+
+    it("rejects null and primitive batch members one by one", async () => {
+        const reply = await exchange('[null, 1, {"jsonrpc":"2.0","method":"a2g/ping","id":"p-1"}]');
+
+        assert.deepStrictEqual(reply, [
+            INVALID_REQUEST,
+            INVALID_REQUEST,
+            { jsonrpc: "2.0", id: "p-1", error: { code: A2G_ERROR_CODES.METHOD_NOT_FOUND, message: "Method not found: a2g/ping" } },
+        ]);
+    });
+
+    it("rejects an empty batch", async () => {
+        const reply = await exchange("[]");
+
+        assert.deepStrictEqual(reply, { jsonrpc: "2.0", id: null, error: { code: A2G_ERROR_CODES.INVALID_REQUEST, message: "Empty batch" } });
+    });
+});
@@ -0,0 +1,418 @@
+import { EventEmitter } from "events";
+import type { IncomingHttpHeaders } from "http";
+import type { AddressInfo } from "net";
+import WebSocket, { WebSocketServer } from "ws";
+import type {
+    A2gIntent,
+    A2gReport,
+    A2gResponse,
+    A2gStatusRequest,
+    G2aResolutionParams,
+    G2aStatusResponse,
+    G2aVerdict,
+    MockAeonEngineConfig,
+    MockVerdictScript,
+} from "./types.js";
+import { A2G_ERROR_CODES } from "./protocol.js";
+
+type MockMessage = { method?: string; id?: string };
+
+type ScriptSource = MockVerdictScript | ((intent: A2gIntent) => MockVerdictScript);
+
+/**
+ * Local stand-in for the AEON engine, for testing agents offline.
+ *
+ * Speaks the JSON-RPC `a2g/intent` / `a2g/report` / `a2g/status` protocol on localhost,
+ * answers from scripted verdicts and records everything it receives.
+ * `notify` and `request` push server-initiated messages to agents.
+ * Handshake signatures are recorded but not checked; use A2gServer for that.
+ *
+ * @example
+ * ```typescript
+ * const engine = new MockAeonEngine();
+ * const url = await engine.start();
+ *
+ * engine.onTool("delete_file", { verdict: "DENIED" });
+ * engine.enqueue({ drop: true }); // next intent kills the connection
+ *
+ * const client = new A2gClient(url, "did:aeon:test-agent");
+ * // ... exercise the agent ...
+ *
+ * assert.deepStrictEqual(engine.intents.map(i => i.params.tool), ["read_file"]);
+ * await engine.stop();
+ * ```
+ */
+export class MockAeonEngine extends EventEmitter {
+    /** Intents received, in order */
+    readonly intents: A2gIntent[] = [];
+
+    /** Reports received, in order */
+    readonly reports: A2gReport[] = [];
+
+    /** Handshake headers of each connection, in order */
+    readonly handshakes: IncomingHttpHeaders[] = [];
+
+    private wss: WebSocketServer | null = null;
+    private queue: ScriptSource[] = [];
+    private toolScripts = new Map<string, ScriptSource>();
+    private refuseStatus: number | null = null;
+    private escalations = new Map<string, { ws: WebSocket; resolution?: G2aResolutionParams }>();
+    private pendingRequests = new Map<string, (response: A2gResponse) => void>();
+    private requestCounter = 0;
+
+    constructor(private config: MockAeonEngineConfig = {}) {
+        super();
+    }
+
+    /**
+     * Start listening.
+     *
+     * @returns WebSocket URL to point A2gClient at
+     */
+    async start(): Promise<string> {
+        if (!this.wss) {
+            const wss = new WebSocketServer({
+                port: this.config.port ?? 0,
+                host: this.config.host ?? "127.0.0.1",
+                verifyClient: (_info, callback) => {
+                    if (this.refuseStatus !== null) {
+                        callback(false, this.refuseStatus, "Refused by mock engine");
+                    } else {
+                        callback(true);
+                    }
+                },
+            });
+            await new Promise<void>((resolve, reject) => {
+                wss.once("listening", resolve);
+                wss.once("error", reject);
+            });
+
+            wss.on("connection", (ws, req) => {
+                this.handshakes.push(req.headers);
+                this.emit("connection", req.headers);
+                ws.on("message", (data) => this.handleMessage(ws, data.toString()));
+            });
+            this.wss = wss;
+        }
+        return this.url;
+    }
+
+    async stop(): Promise<void> {
+        const wss = this.wss;
+        if (!wss) return;
+        this.wss = null;
+
+        for (const client of wss.clients) {
+            client.terminate();
+        }
+        await new Promise<void>((resolve) => wss.close(() => resolve()));
+    }
+
+    get url(): string {
+        const address = this.wss?.address() as AddressInfo | string | undefined;
+        if (!address || typeof address === "string") {
+            throw new Error("MockAeonEngine is not running");
+        }
+        return `ws://${address.address}:${address.port}`;
+    }
+
+    /** Number of open agent connections */
+    get connectionCount(): number {
+        return this.wss?.clients.size ?? 0;
+    }
+
+    /**
+     * Answer every intent for a tool with a script (until replaced).
+     */
+    onTool(tool: string, script: ScriptSource): this {
+        this.toolScripts.set(tool, script);
+        return this;
+    }
+
+    /**
+     * Queue one-shot scripts, used for the next intents in order
+     * (before per-tool scripts).
+     */
+    enqueue(...scripts: ScriptSource[]): this {
+        this.queue.push(...scripts);
+        return this;
+    }
+
+    /**
+     * Refuse new handshakes with an HTTP status (null to accept again).
+     */
+    refuseConnections(status: number | null = 401): this {
+        this.refuseStatus = status;
+        return this;
+    }
+
+    /**
+     * Abruptly terminate all open connections (agents see code 1006).
+     */
+    dropConnections(): void {
+        for (const client of this.wss?.clients ?? []) {
+            client.terminate();
+        }
+    }
+
+    /**
+     * Send a raw frame to every connected agent.
+     */
+    broadcast(data: string | object): void {
+        const frame = typeof data === "string" ? data : JSON.stringify(data);
+        for (const client of this.wss?.clients ?? []) {
+            if (client.readyState === WebSocket.OPEN) {
+                client.send(frame);
+            }
+        }
+    }
+
+    /**
+     * Send a JSON-RPC notification to every connected agent.
+     */
+    notify(method: string, params?: unknown): void {
+        this.broadcast({ jsonrpc: "2.0", method, params });
+    }
+
+    /**
+     * Send a server-initiated request to the most recent connection and
+     * return the agent's full response (result or error).
+     */
+    async request(method: string, params?: unknown, timeoutMs = 2000): Promise<A2gResponse> {
+        const ws = [...(this.wss?.clients ?? [])].filter(c => c.readyState === WebSocket.OPEN).pop();
+        if (!ws) {
+            throw new Error("MockAeonEngine: no agent connected");
+        }
+
+        const id = `mock-${++this.requestCounter}`;
+        return new Promise<A2gResponse>((resolve, reject) => {
+            const timeout = setTimeout(() => {
+                this.pendingRequests.delete(id);
+                reject(new Error(`MockAeonEngine: no response to ${method} within ${timeoutMs}ms`));
+            }, timeoutMs);
+            this.pendingRequests.set(id, (response) => {
+                clearTimeout(timeout);
+                resolve(response);
+            });
+            this.reply(ws, { jsonrpc: "2.0", method, params, id });
+        });
+    }
+
+    /**
+     * Resolve an escalated intent, as a human reviewer would.
+     *
+     * @param push - Push `g2a/resolution` to the agent (false: only answer `a2g/status` polls)
+     * @returns False if the intent was never escalated
+     */
+    resolveEscalation(
+        intentId: string,
+        resolution: Omit<G2aResolutionParams, "intent_id">,
+        push = true
+    ): boolean {
+        const escalation = this.escalations.get(intentId);
+        if (!escalation) {
+            return false;
+        }
+
+        escalation.resolution = { ...resolution, intent_id: intentId };
+        if (push) {
+            this.reply(escalation.ws, { jsonrpc: "2.0", method: "g2a/resolution", params: escalation.resolution });
+        }
+        return true;
+    }
+
+    /**
+     * Wait until at least `count` reports have arrived.
+     */
+    async waitForReports(count: number, timeoutMs = 2000): Promise<A2gReport[]> {
+        const deadline = Date.now() + timeoutMs;
+        while (this.reports.length < count) {
+            if (Date.now() > deadline) {
+                throw new Error(`MockAeonEngine: expected ${count} reports, got ${this.reports.length}`);
+            }
+            await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+        return [...this.reports];
+    }
+
+    /**
+     * Forget recorded traffic and scripts.
+     */
+    reset(): void {
+        this.intents.length = 0;
+        this.reports.length = 0;
+        this.handshakes.length = 0;
+        this.queue = [];
+        this.toolScripts.clear();
+        this.escalations.clear();
+        this.refuseStatus = null;
+    }
+
+    private handleMessage(ws: WebSocket, data: string): void {
+        let message: MockMessage | MockMessage[];
+        try {
+            message = JSON.parse(data);
+        } catch {
+            this.reply(ws, { jsonrpc: "2.0", id: null, error: { code: A2G_ERROR_CODES.PARSE_ERROR, message: "Parse error" } });
+            return;
+        }
+
+        if (!Array.isArray(message)) {
+            this.handleSingle(ws, message, (reply) => this.reply(ws, reply));
+            return;
+        }
+
+        if (message.length === 0) {
+            this.reply(ws, { jsonrpc: "2.0", id: null, error: { code: A2G_ERROR_CODES.INVALID_REQUEST, message: "Empty batch" } });
+            return;
+        }
+
+        // Batch: immediate answers go back as one array; delayed ones follow on their own
+        const replies: Array<string | object> = [];
+        let collecting = true;
+        for (const item of message) {
+            this.handleSingle(ws, item, (reply) => (collecting ? replies.push(reply) : this.reply(ws, reply)));
+        }
+        collecting = false;
+        if (replies.length > 0) {
+            // Raw (malformed) replies are spliced in as is, not JSON-encoded as strings
+            this.reply(ws, `[${replies.map(reply => (typeof reply === "string" ? reply : JSON.stringify(reply))).join(",")}]`);
+        }
+    }
+
+    private handleSingle(ws: WebSocket, message: MockMessage, send: (reply: string | object) => void): void {
+        // null, primitives and arrays (e.g. a batch member) are not requests
+        if (!message || typeof message !== "object" || Array.isArray(message)) {
+            send({ jsonrpc: "2.0", id: null, error: { code: A2G_ERROR_CODES.INVALID_REQUEST, message: "Invalid request" } });
+            return;
+        }
+
+        if (message.method === undefined && message.id && this.pendingRequests.has(message.id)) {
+            const settle = this.pendingRequests.get(message.id)!;
+            this.pendingRequests.delete(message.id);
+            settle(message as A2gResponse);
+            return;
+        }
+
+        if (message.method === "a2g/report") {
+            this.reports.push(message as A2gReport);
+            this.emit("report", message);
+            if (message.id !== undefined) {
+                send({ jsonrpc: "2.0", id: message.id, result: {} });
+            }
+            return;
+        }
+
+        if (message.method === "a2g/status") {
+            this.answerStatus(ws, message as A2gStatusRequest, send);
+            return;
+        }
+
+        if (message.method !== "a2g/intent") {
+            send({
+                jsonrpc: "2.0",
+                id: message.id ?? null,
+                error: { code: A2G_ERROR_CODES.METHOD_NOT_FOUND, message: `Method not found: ${message.method}` },
+            });
+            return;
+        }
+
+        const intent = message as A2gIntent;
+        this.intents.push(intent);
+        this.emit("intent", intent);
+        this.answer(ws, intent, this.nextScript(intent), send);
+    }
+
+    private nextScript(intent: A2gIntent): MockVerdictScript {
+        const source = this.queue.shift()
+            ?? this.toolScripts.get(intent.params.tool)
+            ?? this.config.defaultScript
+            ?? {};
+        return typeof source === "function" ? source(intent) : source;
+    }
+
+    private answer(
+        ws: WebSocket,
+        intent: A2gIntent,
+        script: MockVerdictScript,
+        send: (reply: string | object) => void
+    ): void {
+        const respond = () => {
+            if (script.noResponse) return;
+
+            if (script.drop) {
+                ws.terminate();
+                return;
+            }
+
+            if (script.malformed) {
+                send(typeof script.malformed === "string" ? script.malformed : "{not json");
+                return;
+            }
+
+            if (script.error) {
+                send({ jsonrpc: "2.0", id: intent.id, error: script.error });
+                return;
+            }
+
+            if ((script.verdict ?? "APPROVED") === "ESCALATE") {
+                this.escalations.set(intent.params.intent_id, { ws });
+            }
+
+            const verdict: G2aVerdict = {
+                jsonrpc: "2.0",
+                id: intent.id,
+                result: {
+                    verdict: script.verdict ?? "APPROVED",
+                    intent_id: intent.params.intent_id,
+                    risk_assessment: {
+                        score: 0,
+                        level: "LOW",
+                        threats: [],
+                        ...script.risk_assessment,
+                    },
+                    capability_manifest: script.capability_manifest,
+                    conditions: script.conditions,
+                },
+            };
+            send(verdict);
+        };
+
+        if (script.delayMs) {
+            setTimeout(respond, script.delayMs);
+        } else {
+            respond();
+        }
+    }
+
+    private answerStatus(ws: WebSocket, request: A2gStatusRequest, send: (reply: string | object) => void): void {
+        const intentId = request.params?.intent_id;
+        const escalation = this.escalations.get(intentId);
+        if (!escalation) {
+            send({
+                jsonrpc: "2.0",
+                id: request.id,
+                error: { code: A2G_ERROR_CODES.INVALID_PARAMS, message: `Unknown escalated intent: ${intentId}` },
+            });
+            return;
+        }
+
+        escalation.ws = ws;
+        const response: G2aStatusResponse = {
+            jsonrpc: "2.0",
+            id: request.id,
+            result: {
+                intent_id: intentId,
+                status: escalation.resolution ? "RESOLVED" : "PENDING",
+                resolution: escalation.resolution,
+            },
+        };
+        send(response);
+    }
+
+    private reply(ws: WebSocket, message: string | object): void {
+        if (ws.readyState === WebSocket.OPEN) {
+            ws.send(typeof message === "string" ? message : JSON.stringify(message));
+        }
+    }
+}
@@ -0,0 +1,149 @@
+/**
+ * Offline operation: report queues and the local fallback policy.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "child_process";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FileReportQueue, MemoryReportQueue, evaluateLocalPolicy } from "./offline.js";
+import type { A2gReport } from "./types.js";
+
+function report(intentId: string): A2gReport["params"] {
+    return { agent_did: "did:aeon:agent", intent_id: intentId, status: "SUCCESS" };
+}
+
+/** Collects delivered intent ids; rejects from the `failAt`th delivery on */
+function collector(failAt = Infinity): { delivered: string[]; deliver: (r: A2gReport["params"]) => Promise<void> } {
+    const delivered: string[] = [];
+    return {
+        delivered,
+        deliver: async (r) => {
+            if (delivered.length >= failAt) throw new Error("engine unreachable");
+            delivered.push(r.intent_id);
+        },
+    };
+}
+
+async function queueFile(): Promise<string> {
+    return join(await fs.mkdtemp(join(tmpdir(), "a2g-queue-")), "reports.jsonl");
+}
+
+describe("MemoryReportQueue", () => {
+    it("delivers reports oldest first and empties", async () => {
+        const queue = new MemoryReportQueue();
+        await queue.push(report("a"));
+        await queue.push(report("b"));
+        const { delivered, deliver } = collector();
+
+        assert.equal(await queue.drain(deliver), 2);
+
+        assert.deepEqual(delivered, ["a", "b"]);
+        assert.equal(queue.size, 0);
+    });
+
+    it("keeps the failed report and the ones after it", async () => {
+        const queue = new MemoryReportQueue();
+        for (const id of ["a", "b", "c"]) await queue.push(report(id));
+
+        assert.equal(await queue.drain(collector(1).deliver), 1);
+
+        const retry = collector();
+        await queue.drain(retry.deliver);
+        assert.deepEqual(retry.delivered, ["b", "c"]);
+    });
+
+    it("drops the oldest reports beyond maxEntries", async () => {
+        const queue = new MemoryReportQueue(2);
+        for (const id of ["a", "b", "c"]) await queue.push(report(id));
+        const { delivered, deliver } = collector();
+
+        await queue.drain(deliver);
+
+        assert.deepEqual(delivered, ["b", "c"]);
+    });
+});
+
+describe("FileReportQueue", () => {
+    it("keeps reports across instances in an owner-only file", async () => {
+        const path = await queueFile();
+        await new FileReportQueue(path).push(report("a"));
+        const { delivered, deliver } = collector();
+
+        const { mode } = await fs.stat(path);
+        await new FileReportQueue(path).drain(deliver);
+
+        assert.equal(mode & 0o777, 0o600);
+        assert.deepEqual(delivered, ["a"]);
+        assert.deepEqual(await fs.readdir(join(path, "..")), []);
+    });
+
+    it("keeps undelivered reports and drains them before newer ones", async () => {
+        const path = await queueFile();
+        const queue = new FileReportQueue(path);
+        for (const id of ["a", "b", "c"]) await queue.push(report(id));
+
+        assert.equal(await queue.drain(collector(1).deliver), 1);
+        await queue.push(report("d"));
+
+        const retry = collector();
+        assert.equal(await queue.drain(retry.deliver), 3);
+        assert.deepEqual(retry.delivered, ["b", "c", "d"]);
+    });
+
+    it("picks up what a dead process left mid-drain, and skips live ones", async () => {
+        const path = await queueFile();
+        const { pid: deadPid } = spawnSync(process.execPath, ["-e", ""]);
+        await fs.writeFile(`${path}.1000.${deadPid}.draining`, JSON.stringify(report("orphan")) + "\n");
+        await fs.writeFile(`${path}.1001.${process.ppid}.draining`, JSON.stringify(report("in-flight")) + "\n");
+        await new FileReportQueue(path).push(report("new"));
+        const { delivered, deliver } = collector();
+
+        await new FileReportQueue(path).drain(deliver);
+
+        assert.deepEqual(delivered, ["orphan", "new"]);
+        assert.deepEqual(await fs.readdir(join(path, "..")), [`reports.jsonl.1001.${process.ppid}.draining`]);
+    });
+
+    it("skips a torn last line", async () => {
+        const path = await queueFile();
+        await fs.writeFile(path, JSON.stringify(report("a")) + "\n" + '{"agent_did":"did:aeon:ag');
+        const { delivered, deliver } = collector();
+
+        await new FileReportQueue(path).drain(deliver);
+
+        assert.deepEqual(delivered, ["a"]);
+    });
+});
+
+describe("evaluateLocalPolicy", () => {
+    const policy = {
+        allow: ["read_*", "list_files"],
+        deny: ["read_secrets"],
+        capability_manifest: { network_allowed: false },
+    };
+
+    it("lets deny rules win over allow rules", () => {
+        assert.equal(evaluateLocalPolicy(policy, "read_secrets", "i-1").verdict, "DENIED");
+    });
+
+    it("approves exact and prefix matches with the policy manifest", () => {
+        const verdict = evaluateLocalPolicy(policy, "read_file", "i-1");
+
+        assert.equal(verdict.verdict, "APPROVED");
+        assert.equal(evaluateLocalPolicy(policy, "list_files", "i-2").verdict, "APPROVED");
+        assert.deepEqual(verdict.capability_manifest, { network_allowed: false });
+        assert.equal(verdict.decided_locally, true);
+        assert.deepEqual(verdict.risk_assessment.threats, ["engine_unreachable"]);
+    });
+
+    it("falls back to the policy default, DENIED unless set", () => {
+        const denied = evaluateLocalPolicy(policy, "delete_file", "i-1");
+
+        assert.equal(denied.verdict, "DENIED");
+        assert.equal(denied.capability_manifest, undefined);
+        assert.equal(evaluateLocalPolicy({ ...policy, default: "APPROVED" }, "delete_file", "i-2").verdict, "APPROVED");
+    });
+});
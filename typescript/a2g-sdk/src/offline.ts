@@ -0,0 +1,215 @@
+import { promises as fs } from "fs";
+import { basename, dirname, join } from "path";
+import type { A2gLocalPolicy, A2gReport, G2aVerdictResult, ReportQueue } from "./types.js";
+
+type Deliver = (report: A2gReport["params"]) => Promise<void>;
+
+/** `<queue file>.<claimed at>.<pid>.draining` */
+const DRAINING_FILE = /^(\d+)\.(\d+)\.draining$/;
+
+/**
+ * In-memory report queue. Survives reconnects but not restarts: queued
+ * reports are lost when the process exits (use FileReportQueue for that).
+ * The oldest reports are dropped beyond `maxEntries`.
+ */
+export class MemoryReportQueue implements ReportQueue {
+    private reports: A2gReport["params"][] = [];
+
+    constructor(private maxEntries = 10000) {}
+
+    async push(report: A2gReport["params"]): Promise<void> {
+        this.reports.push(report);
+        if (this.reports.length > this.maxEntries) {
+            this.reports.splice(0, this.reports.length - this.maxEntries);
+        }
+    }
+
+    async drain(deliver: Deliver): Promise<number> {
+        let delivered = 0;
+        while (this.reports.length > 0) {
+            // Taken off first so a concurrent drain cannot send it twice
+            const report = this.reports.shift()!;
+            try {
+                await deliver(report);
+            } catch {
+                this.reports.unshift(report);
+                break;
+            }
+            delivered++;
+        }
+        return delivered;
+    }
+
+    get size(): number {
+        return this.reports.length;
+    }
+}
+
+/**
+ * Report queue in a JSON Lines file (owner-only permissions), so reports
+ * survive agent restarts.
+ *
+ * Draining moves the file aside to `<path>.<time>.<pid>.draining` and only
+ * deletes it once every report in it was delivered; a failed delivery keeps
+ * the rest there, to be drained first next time. Files left behind by a
+ * process that died mid-drain are picked up too. Delivery is at least once:
+ * a crash during a drain can send some reports again.
+ *
+ * @example
+ * ```typescript
+ * const client = new A2gClient(url, did.did, {
+ *     reportQueue: new FileReportQueue("/var/lib/agent/a2g-reports.jsonl"),
+ * });
+ * ```
+ */
+export class FileReportQueue implements ReportQueue {
+    private lastClaim = 0;
+    private draining: Promise<unknown> = Promise.resolve();
+
+    constructor(private path: string) {}
+
+    async push(report: A2gReport["params"]): Promise<void> {
+        await fs.mkdir(dirname(this.path), { recursive: true, mode: 0o700 });
+        await fs.appendFile(this.path, JSON.stringify(report) + "\n", { mode: 0o600 });
+    }
+
+    drain(deliver: Deliver): Promise<number> {
+        // One drain at a time, so no file is sent twice
+        const run = this.draining.then(() => this.drainFiles(deliver));
+        this.draining = run.catch(() => undefined);
+        return run;
+    }
+
+    private async drainFiles(deliver: Deliver): Promise<number> {
+        let delivered = 0;
+        for (const file of await this.claim()) {
+            const reports = parseReports(await fs.readFile(file, "utf-8"));
+            for (let i = 0; i < reports.length; i++) {
+                try {
+                    await deliver(reports[i]);
+                } catch {
+                    await writeReports(file, reports.slice(i));
+                    return delivered;
+                }
+                delivered++;
+            }
+            await fs.unlink(file);
+        }
+        return delivered;
+    }
+
+    /**
+     * Take over draining files of this process and of dead ones, then move
+     * the queue file aside. Returns them oldest first.
+     */
+    private async claim(): Promise<string[]> {
+        const dir = dirname(this.path);
+        const prefix = `${basename(this.path)}.`;
+        let names: string[];
+        try {
+            names = await fs.readdir(dir);
+        } catch (err) {
+            if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+            throw err;
+        }
+
+        const leftovers: Array<{ file: string; claimedAt: number; pid: number }> = [];
+        for (const name of names) {
+            const match = name.startsWith(prefix) ? DRAINING_FILE.exec(name.slice(prefix.length)) : null;
+            if (match) {
+                leftovers.push({ file: join(dir, name), claimedAt: Number(match[1]), pid: Number(match[2]) });
+            }
+        }
+        leftovers.sort((a, b) => a.claimedAt - b.claimedAt);
+
+        const claimed: string[] = [];
+        for (const { file, pid } of leftovers) {
+            if (pid === process.pid) {
+                claimed.push(file);
+            } else if (!isAlive(pid)) {
+                const target = this.nextDrainingFile();
+                if (await moveIfExists(file, target)) claimed.push(target);
+            }
+        }
+
+        const target = this.nextDrainingFile();
+        if (await moveIfExists(this.path, target)) claimed.push(target);
+        return claimed;
+    }
+
+    private nextDrainingFile(): string {
+        this.lastClaim = Math.max(Date.now(), this.lastClaim + 1);
+        return `${this.path}.${this.lastClaim}.${process.pid}.draining`;
+    }
+}
+
+/**
+ * Decide an intent from a local policy.
+ * Deny rules win, then allow rules, then the policy default (DENIED).
+ */
+export function evaluateLocalPolicy(
+    policy: A2gLocalPolicy,
+    tool: string,
+    intentId: string
+): G2aVerdictResult {
+    const verdict = matchesAny(policy.deny, tool)
+        ? "DENIED"
+        : matchesAny(policy.allow, tool) ? "APPROVED" : policy.default ?? "DENIED";
+
+    return {
+        verdict,
+        intent_id: intentId,
+        risk_assessment: {
+            score: 0,
+            level: "MEDIUM",
+            threats: ["engine_unreachable"],
+        },
+        capability_manifest: verdict === "APPROVED" ? policy.capability_manifest : undefined,
+        decided_locally: true,
+    };
+}
+
+function matchesAny(patterns: string[] | undefined, tool: string): boolean {
+    return (patterns || []).some((pattern) =>
+        pattern.endsWith("*") ? tool.startsWith(pattern.slice(0, -1)) : pattern === tool
+    );
+}
+
+function parseReports(content: string): A2gReport["params"][] {
+    const reports: A2gReport["params"][] = [];
+    for (const line of content.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+            reports.push(JSON.parse(line));
+        } catch {
+            // A torn last line from a crash mid-append
+        }
+    }
+    return reports;
+}
+
+async function writeReports(path: string, reports: A2gReport["params"][]): Promise<void> {
+    const temp = `${path}.tmp`;
+    await fs.writeFile(temp, reports.map((report) => JSON.stringify(report) + "\n").join(""), { mode: 0o600 });
+    await fs.rename(temp, path);
+}
+
+async function moveIfExists(from: string, to: string): Promise<boolean> {
+    try {
+        await fs.rename(from, to);
+        return true;
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return false;
+        throw err;
+    }
+}
+
+function isAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (err) {
+        // EPERM: it exists but belongs to another user
+        return (err as NodeJS.ErrnoException).code === "EPERM";
+    }
+}
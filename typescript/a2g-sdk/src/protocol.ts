@@ -0,0 +1,33 @@
+import type { A2gIntent } from "./types.js";
+
+/**
+ * JSON-RPC error codes used on the A2G wire.
+ * -32700..-32600 are standard JSON-RPC 2.0, -32001.. are A2G-specific.
+ */
+export const A2G_ERROR_CODES = {
+    PARSE_ERROR: -32700,
+    INVALID_REQUEST: -32600,
+    METHOD_NOT_FOUND: -32601,
+    INVALID_PARAMS: -32602,
+    INTERNAL_ERROR: -32603,
+    UNAUTHORIZED: -32001,
+    INVALID_SIGNATURE: -32002,
+} as const;
+
+/**
+ * The object an intent signature covers: the intent params without
+ * `context.signature` (and without `context` if nothing else is in it).
+ * Client and server must build this identically.
+ */
+export function intentSigningPayload(params: A2gIntent["params"]): Record<string, unknown> {
+    const { context, ...rest } = params;
+    if (!context) {
+        return { ...rest };
+    }
+
+    const { signature: _signature, ...unsignedContext } = context;
+    if (Object.keys(unsignedContext).length === 0) {
+        return { ...rest };
+    }
+    return { ...rest, context: unsignedContext };
+}
@@ -0,0 +1,224 @@
+/**
+ * A2gServer: handshake and intent authentication, report acknowledgements
+ * and escalation bookkeeping, over the HTTP and WebSocket paths.
+ */
+
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AeonDID, Signer } from "@aeon/did-sdk";
+import { A2gClient } from "./client.js";
+import { A2gAuthError } from "./errors.js";
+import { silentLogger } from "./logging.js";
+import { A2G_ERROR_CODES, intentSigningPayload } from "./protocol.js";
+import { A2gServer } from "./server.js";
+import type { A2gIntent } from "./types.js";
+
+const LOW_RISK = { score: 0, level: "LOW" as const, threats: [] };
+
+function handshakeHeaders(did: AeonDID, signedAt = Date.now()): Record<string, string> {
+    const signature = Signer.sign(did.signingKey, did.did, {
+        keyType: did.keyType,
+        timestamp: String(signedAt),
+    });
+    return {
+        "X-Agent-DID": did.did,
+        "X-Timestamp": signature.timestamp,
+        "X-Nonce": signature.nonce,
+        "X-Signature": signature.hash,
+    };
+}
+
+function signedIntent(did: AeonDID, agentDid = did.did): A2gIntent {
+    const intent: A2gIntent = {
+        jsonrpc: "2.0",
+        method: "a2g/intent",
+        params: { agent_did: agentDid, intent_id: `intent-${Math.random()}`, tool: "read_file", arguments: {} },
+        id: `request-${Math.random()}`,
+    };
+    const signature = Signer.sign(did.signingKey, intentSigningPayload(intent.params), { keyType: did.keyType });
+    intent.params.context = { signature };
+    return intent;
+}
+
+describe("A2gServer authentication", () => {
+    let server: A2gServer;
+    let httpUrl: string;
+    const agent = AeonDID.create("server-auth-agent", { keyType: "ed25519" });
+
+    beforeEach(async () => {
+        server = new A2gServer({
+            resolveAgentKey: (agentDid) => (agentDid === agent.did ? { key: agent.publicKey!, keyType: "ed25519" } : null),
+            policy: () => ({ verdict: "APPROVED", risk_assessment: LOW_RISK }),
+        });
+        await server.listen();
+        httpUrl = server.url.replace(/^ws/, "http");
+    });
+
+    afterEach(async () => {
+        await server.close();
+    });
+
+    async function post(message: unknown, headers: Record<string, string>): Promise<{ status: number; body: any }> {
+        const res = await fetch(httpUrl, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", ...headers },
+            body: JSON.stringify(message),
+        });
+        return { status: res.status, body: res.status === 204 ? null : await res.json() };
+    }
+
+    it("answers a signed intent from a known agent", async () => {
+        const intent = signedIntent(agent);
+
+        const { status, body } = await post(intent, handshakeHeaders(agent));
+
+        assert.equal(status, 200);
+        assert.equal(body.result.verdict, "APPROVED");
+    });
+
+    it("answers 401 with the request id for a bad handshake signature", async () => {
+        const intent = signedIntent(agent);
+        const impostor = AeonDID.create("impostor", { keyType: "ed25519" });
+        const headers = { ...handshakeHeaders(agent), "X-Signature": handshakeHeaders(impostor)["X-Signature"] };
+
+        const { status, body } = await post(intent, headers);
+
+        assert.equal(status, 401);
+        assert.equal(body.id, intent.id);
+        assert.equal(body.error.code, A2G_ERROR_CODES.UNAUTHORIZED);
+        assert.match(body.error.message, /bad-hash/);
+    });
+
+    it("rejects a replayed handshake nonce", async () => {
+        const headers = handshakeHeaders(agent);
+
+        const first = await post(signedIntent(agent), headers);
+        const replay = await post(signedIntent(agent), headers);
+
+        assert.equal(first.status, 200);
+        assert.equal(replay.status, 401);
+        assert.match(replay.body.error.message, /replayed/);
+    });
+
+    it("rejects an expired handshake timestamp", async () => {
+        const { status, body } = await post(signedIntent(agent), handshakeHeaders(agent, Date.now() - 10 * 60 * 1000));
+
+        assert.equal(status, 401);
+        assert.match(body.error.message, /expired/);
+    });
+
+    it("rejects an unknown agent", async () => {
+        const stranger = AeonDID.create("server-stranger", { keyType: "ed25519" });
+
+        const { status, body } = await post(signedIntent(stranger), handshakeHeaders(stranger));
+
+        assert.equal(status, 401);
+        assert.match(body.error.message, /Unknown agent/);
+    });
+
+    it("rejects an intent for another agent_did", async () => {
+        const intent = signedIntent(agent, "did:aeon:someone-else");
+
+        const { status, body } = await post(intent, handshakeHeaders(agent));
+
+        assert.equal(status, 200);
+        assert.equal(body.id, intent.id);
+        assert.equal(body.error.code, A2G_ERROR_CODES.UNAUTHORIZED);
+    });
+
+    it("rejects an intent with a bad signature", async () => {
+        const intent = signedIntent(agent);
+        intent.params.arguments = { path: "/etc/shadow" };
+
+        const { body } = await post(intent, handshakeHeaders(agent));
+
+        assert.equal(body.error.code, A2G_ERROR_CODES.INVALID_SIGNATURE);
+    });
+
+    it("refuses a WebSocket handshake with a bad signature", async () => {
+        const impostor = AeonDID.create("ws-impostor", { keyType: "ed25519" });
+        const client = new A2gClient(server.url, agent.did, {
+            logger: silentLogger,
+            signingKey: impostor.signingKey,
+            keyType: "ed25519",
+            reconnect: { maxAttempts: 0 },
+        });
+
+        await assert.rejects(client.connect(), A2gAuthError);
+        client.disconnect();
+    });
+});
+
+describe("A2gServer reports and escalations", () => {
+    let server: A2gServer;
+    let httpUrl: string;
+
+    beforeEach(async () => {
+        server = new A2gServer({
+            requireSignatures: false,
+            maxEscalations: 2,
+            policy: () => ({ verdict: "ESCALATE", risk_assessment: LOW_RISK }),
+        });
+        await server.listen();
+        httpUrl = server.url.replace(/^ws/, "http");
+    });
+
+    afterEach(async () => {
+        await server.close();
+    });
+
+    async function post(message: unknown): Promise<any> {
+        const res = await fetch(httpUrl, { method: "POST", body: JSON.stringify(message) });
+        return res.status === 204 ? null : res.json();
+    }
+
+    function escalate(intentId: string): Promise<any> {
+        return post({
+            jsonrpc: "2.0",
+            method: "a2g/intent",
+            params: { agent_did: "did:aeon:agent", intent_id: intentId, tool: "wire_transfer", arguments: {} },
+            id: `request-${intentId}`,
+        });
+    }
+
+    function poll(intentId: string): Promise<any> {
+        return post({
+            jsonrpc: "2.0",
+            method: "a2g/status",
+            params: { agent_did: "did:aeon:agent", intent_id: intentId },
+            id: `poll-${intentId}`,
+        });
+    }
+
+    it("acknowledges a report with an id and stays silent for a notification", async () => {
+        const params = { agent_did: "did:aeon:agent", intent_id: "intent-1", status: "SUCCESS" };
+
+        const ack = await post({ jsonrpc: "2.0", method: "a2g/report", params, id: "report-1" });
+        const notification = await post({ jsonrpc: "2.0", method: "a2g/report", params });
+
+        assert.deepEqual(ack, { jsonrpc: "2.0", id: "report-1", result: {} });
+        assert.equal(notification, null);
+        assert.equal(server.reports.length, 2);
+    });
+
+    it("forgets a resolved escalation once a poll has returned it", async () => {
+        await escalate("intent-1");
+        server.resolveEscalation("intent-1", { verdict: "APPROVED" });
+
+        const resolved = await poll("intent-1");
+        const again = await poll("intent-1");
+
+        assert.equal(resolved.result.status, "RESOLVED");
+        assert.equal(again.error.code, A2G_ERROR_CODES.INVALID_PARAMS);
+    });
+
+    it("forgets the oldest escalation beyond maxEscalations", async () => {
+        await escalate("intent-1");
+        await escalate("intent-2");
+        await escalate("intent-3");
+
+        assert.equal(server.resolveEscalation("intent-1", { verdict: "DENIED" }), false);
+        assert.equal((await poll("intent-2")).result.status, "PENDING");
+        assert.equal((await poll("intent-3")).result.status, "PENDING");
+    });
+});
@@ -0,0 +1,662 @@
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+import { createServer } from "http";
+import type { IncomingHttpHeaders, IncomingMessage, Server, ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { createInterface } from "readline";
+import type { Readable, Writable } from "stream";
+import WebSocket, { WebSocketServer } from "ws";
+import { DIDResolver, Signer } from "@aeon/did-sdk";
+import type { Signature } from "@aeon/did-sdk";
+import type {
+    A2gAgentKey,
+    A2gAgentSession,
+    A2gIntent,
+    A2gReport,
+    A2gResponse,
+    A2gServerConfig,
+    A2gStatusRequest,
+    G2aResolution,
+    G2aResolutionParams,
+    G2aNotification,
+    G2aRequest,
+    G2aStatusResponse,
+    G2aVerdict,
+} from "./types.js";
+import { A2G_ERROR_CODES, intentSigningPayload } from "./protocol.js";
+import { A2gConnectionError, A2gProtocolError, A2gTimeoutError, errorFromRpc } from "./errors.js";
+import { validateIntent, validateReport, validateVerdict } from "./validation.js";
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 5000;
+const DEFAULT_MAX_ESCALATIONS = 10_000;
+const MAX_HTTP_BODY_BYTES = 1024 * 1024;
+
+type JsonRpcMessage = { jsonrpc?: string; method?: string; params?: unknown; id?: string };
+
+/**
+ * One way of answering an agent: a WebSocket, a stdio stream or a single
+ * HTTP exchange. Only persistent peers can receive pushes.
+ */
+interface Peer {
+    send(message: unknown): void;
+    persistent: boolean;
+    close?(): void;
+}
+
+/**
+ * Server side of the A2G protocol: authenticates agent handshakes, verifies
+ * intent signatures, asks a policy for verdicts and collects reports.
+ * Agents connect over WebSocket or HTTP POST on the same port, or over
+ * stdio with `serveStdio`.
+ *
+ * @example
+ * ```typescript
+ * const server = new A2gServer({
+ *     resolveAgentKey: A2gServer.keysFromResolver(new DIDResolver([registry])),
+ *     policy: (intent) => ({
+ *         verdict: intent.tool === "delete_file" ? "DENIED" : "APPROVED",
+ *         risk_assessment: { score: 0, level: "LOW", threats: [] },
+ *     }),
+ * });
+ * await server.listen();
+ * const client = new A2gClient(server.url, did.did, { signingKey: did.signingKey, keyType: did.keyType });
+ * ```
+ */
+export class A2gServer extends EventEmitter {
+    private wss: WebSocketServer | null = null;
+    private httpServer: Server | null = null;
+    private sessions = new WeakMap<IncomingMessage, A2gAgentSession>();
+    private collectedReports: A2gReport["params"][] = [];
+    private escalations = new Map<string, {
+        peer?: Peer;
+        agentDid?: string;
+        resolution?: G2aResolutionParams;
+    }>();
+    private connections = new Map<Peer, A2gAgentSession>();
+    private pendingRequests = new Map<string, {
+        resolve: (result: unknown) => void;
+        reject: (error: Error) => void;
+        timeout: NodeJS.Timeout;
+    }>();
+
+    constructor(private config: A2gServerConfig) {
+        super();
+        if (config.requireSignatures !== false && !config.resolveAgentKey) {
+            throw new Error("A2gServer: resolveAgentKey is required unless requireSignatures is false");
+        }
+    }
+
+    /**
+     * Build a key resolver from DID Documents (Ed25519 agents only).
+     */
+    static keysFromResolver(resolver: DIDResolver): (agentDid: string) => Promise<A2gAgentKey | null> {
+        return async (agentDid) => {
+            const doc = await resolver.resolve(agentDid);
+            const publicKey = doc && DIDResolver.getPublicKey(doc);
+            return publicKey ? { key: publicKey, keyType: "ed25519" } : null;
+        };
+    }
+
+    async listen(): Promise<void> {
+        if (this.wss) return;
+
+        const options = {
+            verifyClient: (
+                info: { req: IncomingMessage },
+                callback: (ok: boolean, code?: number, message?: string) => void
+            ) => {
+                this.authenticate(info.req.headers)
+                    .then((session) => {
+                        this.sessions.set(info.req, session);
+                        callback(true);
+                    })
+                    .catch((err: Error) => {
+                        this.emit("rejected", err, info.req);
+                        callback(false, 401, err.message);
+                    });
+            },
+        };
+
+        if (this.config.server) {
+            this.wss = new WebSocketServer({ ...options, server: this.config.server });
+        } else {
+            const httpServer = createServer((req, res) => {
+                this.handleHttpRequest(req, res);
+            });
+            await new Promise<void>((resolve, reject) => {
+                httpServer.once("listening", resolve);
+                httpServer.once("error", reject);
+                httpServer.listen(this.config.port ?? 0, this.config.host ?? "127.0.0.1");
+            });
+            this.httpServer = httpServer;
+            this.wss = new WebSocketServer({ ...options, server: httpServer });
+        }
+
+        this.wss.on("connection", (ws, req) => {
+            const session = this.sessions.get(req) || {};
+            session.remoteAddress = req.socket.remoteAddress;
+            const peer: Peer = {
+                send: (message) => send(ws, message),
+                persistent: true,
+                close: () => ws.close(1001),
+            };
+            this.connections.set(peer, session);
+            this.emit("connection", session);
+
+            ws.on("close", () => this.connections.delete(peer));
+
+            ws.on("message", (data) => {
+                this.dispatch(peer, session, data.toString());
+            });
+        });
+    }
+
+    /**
+     * Answer one JSON-RPC message sent as an HTTP POST (as HttpTransport does).
+     * Wired up automatically unless `config.server` is given; then route
+     * POSTs to this from your own request handler.
+     */
+    async handleHttpRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        if (req.method !== "POST") {
+            res.writeHead(405, { Allow: "POST" }).end();
+            return;
+        }
+
+        let body = "";
+        try {
+            for await (const chunk of req) {
+                body += chunk;
+                if (body.length > MAX_HTTP_BODY_BYTES) {
+                    res.writeHead(413).end();
+                    return;
+                }
+            }
+        } catch {
+            return;
+        }
+
+        const writeJson = (status: number, message: unknown) => {
+            res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(message));
+        };
+
+        let session: A2gAgentSession;
+        try {
+            session = await this.authenticate(req.headers);
+        } catch (err) {
+            this.emit("rejected", err, req);
+            let id: string | null = null;
+            try {
+                id = JSON.parse(body).id ?? null;
+            } catch {
+                // Unparseable body: answer without an id
+            }
+            writeJson(401, { jsonrpc: "2.0", id, error: { code: A2G_ERROR_CODES.UNAUTHORIZED, message: (err as Error).message } });
+            return;
+        }
+        session.remoteAddress = req.socket.remoteAddress;
+
+        const replies: unknown[] = [];
+        const peer: Peer = { send: (message) => replies.push(message), persistent: false };
+        await this.dispatch(peer, session, body);
+
+        if (replies.length > 0) {
+            writeJson(200, replies[0]);
+        } else {
+            res.writeHead(204).end();
+        }
+    }
+
+    /**
+     * Serve one agent over newline-delimited JSON (as StdioTransport does),
+     * e.g. a sidecar's process.stdin/stdout. The first line must be an
+     * `a2g/handshake` notification carrying the auth headers.
+     */
+    serveStdio(input: Readable, output: Writable): void {
+        const lines = createInterface({ input });
+        const peer: Peer = {
+            send: (message) => {
+                if (output.writable) {
+                    output.write(JSON.stringify(message) + "\n");
+                }
+            },
+            persistent: true,
+            close: () => lines.close(),
+        };
+
+        let ready: Promise<A2gAgentSession | null> | null = null;
+        lines.on("line", (line) => {
+            if (!line.trim()) return;
+
+            if (!ready) {
+                ready = this.stdioHandshake(peer, line);
+                return;
+            }
+            ready = ready.then(async (session) => {
+                if (session) {
+                    await this.dispatch(peer, session, line);
+                }
+                return session;
+            });
+        });
+        lines.on("close", () => this.connections.delete(peer));
+    }
+
+    private async stdioHandshake(peer: Peer, line: string): Promise<A2gAgentSession | null> {
+        try {
+            const message = JSON.parse(line) as { method?: string; params?: { headers?: Record<string, string> } };
+            if (message.method !== "a2g/handshake") {
+                throw new Error("Expected a2g/handshake");
+            }
+            const headers: IncomingHttpHeaders = {};
+            for (const [name, value] of Object.entries(message.params?.headers || {})) {
+                headers[name.toLowerCase()] = value;
+            }
+
+            const session = await this.authenticate(headers);
+            this.connections.set(peer, session);
+            this.emit("connection", session);
+            return session;
+        } catch (err) {
+            this.emit("rejected", err);
+            peer.send({ jsonrpc: "2.0", id: null, error: { code: A2G_ERROR_CODES.UNAUTHORIZED, message: (err as Error).message } });
+            peer.close?.();
+            return null;
+        }
+    }
+
+    private dispatch(peer: Peer, session: A2gAgentSession, data: string): Promise<void> {
+        return this.handleMessage(peer, session, data).catch((err) => {
+            // Only surface handler errors to listeners; never crash the server
+            if (this.listenerCount("error") > 0) {
+                this.emit("error", err);
+            }
+        });
+    }
+
+    /**
+     * WebSocket URL of the listening server (use http:// with the same
+     * host and port for HttpTransport).
+     */
+    get url(): string {
+        const address = this.wss?.address() as AddressInfo | string | undefined;
+        if (!address || typeof address === "string") {
+            throw new Error("A2gServer is not listening");
+        }
+        const host = address.family === "IPv6" ? `[${address.address}]` : address.address;
+        return `ws://${host}:${address.port}`;
+    }
+
+    /**
+     * Execution reports received so far.
+     */
+    get reports(): A2gReport["params"][] {
+        return [...this.collectedReports];
+    }
+
+    /**
+     * Resolve an escalated intent: pushes `g2a/resolution` to the agent and
+     * answers its next `a2g/status` poll with the resolution.
+     *
+     * @returns False if the intent was never escalated
+     */
+    resolveEscalation(intentId: string, resolution: Omit<G2aResolutionParams, "intent_id">): boolean {
+        const escalation = this.escalations.get(intentId);
+        if (!escalation) {
+            return false;
+        }
+
+        escalation.resolution = { ...resolution, intent_id: intentId };
+        const push: G2aResolution = {
+            jsonrpc: "2.0",
+            method: "g2a/resolution",
+            params: escalation.resolution,
+        };
+        escalation.peer?.send(push);
+        return true;
+    }
+
+    /**
+     * Push a notification (e.g. `g2a/policy_update`, `g2a/capability_revoked`,
+     * `g2a/disconnect`) to every connection of an agent, or to all agents.
+     *
+     * @returns Number of connections the notification was sent to
+     */
+    notify(method: string, params?: unknown, agentDid?: string): number {
+        const notification: G2aNotification = { jsonrpc: "2.0", method, params };
+        let sent = 0;
+        for (const [peer, session] of this.connections) {
+            if (agentDid === undefined || session.agentDid === agentDid) {
+                peer.send(notification);
+                sent++;
+            }
+        }
+        return sent;
+    }
+
+    /**
+     * Send a request to a connected agent and wait for its answer
+     * (handled on the agent with `A2gClient.onRequest`).
+     *
+     * @throws A2gRpcError (or a subclass) if the agent answers with an error
+     * @throws A2gConnectionError if the agent is not connected
+     * @throws A2gTimeoutError if no answer arrives in time
+     */
+    request<T = unknown>(
+        agentDid: string,
+        method: string,
+        params?: unknown,
+        timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS
+    ): Promise<T> {
+        const peer = [...this.connections].find(([, session]) => session.agentDid === agentDid)?.[0];
+        if (!peer) {
+            return Promise.reject(new A2gConnectionError(`Agent ${agentDid} is not connected`));
+        }
+
+        const request: G2aRequest = { jsonrpc: "2.0", method, params, id: randomUUID() };
+        return new Promise<T>((resolve, reject) => {
+            const timeout = setTimeout(() => {
+                this.pendingRequests.delete(request.id);
+                reject(new A2gTimeoutError(`${method} to ${agentDid} timed out after ${timeoutMs}ms`, timeoutMs));
+            }, timeoutMs);
+
+            this.pendingRequests.set(request.id, {
+                resolve: resolve as (result: unknown) => void,
+                reject,
+                timeout,
+            });
+            peer.send(request);
+        });
+    }
+
+    async close(): Promise<void> {
+        const wss = this.wss;
+        this.wss = null;
+
+        for (const [id, pending] of this.pendingRequests) {
+            clearTimeout(pending.timeout);
+            pending.reject(new A2gConnectionError("A2gServer closed", 1001));
+            this.pendingRequests.delete(id);
+        }
+        for (const peer of this.connections.keys()) {
+            peer.close?.();
+        }
+        this.connections.clear();
+        if (wss) {
+            await new Promise<void>((resolve) => wss.close(() => resolve()));
+        }
+
+        const httpServer = this.httpServer;
+        this.httpServer = null;
+        if (httpServer) {
+            await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+        }
+    }
+
+    private async authenticate(headers: IncomingHttpHeaders): Promise<A2gAgentSession> {
+        if (this.config.apiKeys) {
+            const auth = headers["authorization"];
+            const apiKey = typeof auth === "string" && auth.startsWith("Bearer ") ? auth.slice(7) : undefined;
+            if (!apiKey || !this.config.apiKeys.includes(apiKey)) {
+                throw new Error("Invalid API key");
+            }
+        }
+
+        const agentDid = header(headers, "x-agent-did");
+        if (!agentDid) {
+            if (this.config.requireSignatures === false) {
+                return {};
+            }
+            throw new Error("Missing X-Agent-DID header");
+        }
+
+        const agentKey = await this.config.resolveAgentKey?.(agentDid);
+        if (!agentKey) {
+            if (this.config.requireSignatures === false) {
+                return { agentDid };
+            }
+            throw new Error(`Unknown agent ${agentDid}`);
+        }
+
+        const signature: Signature = {
+            timestamp: header(headers, "x-timestamp") || "",
+            nonce: header(headers, "x-nonce") || "",
+            hash: header(headers, "x-signature") || "",
+        };
+        const result = Signer.verifyDetailed(agentKey.key, signature, agentDid, {
+            keyType: agentKey.keyType,
+            maxAgeMs: this.config.maxSignatureAgeMs,
+        });
+        if (!result.ok) {
+            throw new Error(`Handshake signature rejected (${result.status}): ${result.reason}`);
+        }
+
+        return { agentDid, agentKey };
+    }
+
+    private async handleMessage(peer: Peer, session: A2gAgentSession, data: string): Promise<void> {
+        let message: JsonRpcMessage | JsonRpcMessage[];
+        try {
+            message = JSON.parse(data);
+        } catch {
+            this.sendError(peer, null, A2G_ERROR_CODES.PARSE_ERROR, "Parse error");
+            return;
+        }
+
+        if (Array.isArray(message)) {
+            await this.handleBatch(peer, session, message);
+        } else {
+            await this.handleSingle(peer, session, message);
+        }
+    }
+
+    /**
+     * JSON-RPC 2.0 batch: handle every member and answer with one array
+     * (nothing if all members were notifications).
+     */
+    private async handleBatch(peer: Peer, session: A2gAgentSession, batch: JsonRpcMessage[]): Promise<void> {
+        if (batch.length === 0) {
+            this.sendError(peer, null, A2G_ERROR_CODES.INVALID_REQUEST, "Empty batch");
+            return;
+        }
+
+        const replies: unknown[] = [];
+        let collecting = true;
+        // Replies made while the batch is handled are collected; later pushes
+        // (e.g. escalation resolutions) go straight to the peer
+        const collector: Peer = {
+            ...peer,
+            send: (message) => (collecting ? replies.push(message) : peer.send(message)),
+        };
+
+        await Promise.all(batch.map(message => this.handleSingle(collector, session, message)));
+        collecting = false;
+
+        if (replies.length > 0) {
+            peer.send(replies);
+        }
+    }
+
+    private async handleSingle(peer: Peer, session: A2gAgentSession, message: JsonRpcMessage): Promise<void> {
+        if (!message || typeof message !== "object") {
+            this.sendError(peer, null, A2G_ERROR_CODES.INVALID_REQUEST, "Invalid request");
+            return;
+        }
+
+        if (message.method === undefined && message.id) {
+            this.handleResponse(message as A2gResponse);
+            return;
+        }
+
+        switch (message.method) {
+            case "a2g/intent":
+                await this.handleIntent(peer, session, message as A2gIntent);
+                break;
+            case "a2g/report":
+                await this.handleReport(peer, session, message as A2gReport);
+                break;
+            case "a2g/status":
+                this.handleStatus(peer, session, message as A2gStatusRequest);
+                break;
+            case "a2g/ping":
+                // Liveness probe (HttpTransport sends one when opening)
+                peer.send({ jsonrpc: "2.0", id: message.id ?? null, result: {} });
+                break;
+            default:
+                this.sendError(peer, message.id ?? null, A2G_ERROR_CODES.METHOD_NOT_FOUND, `Method not found: ${message.method}`);
+        }
+    }
+
+    private handleResponse(response: A2gResponse): void {
+        const pending = this.pendingRequests.get(response.id);
+        if (!pending) return;
+
+        clearTimeout(pending.timeout);
+        this.pendingRequests.delete(response.id);
+        if (response.error) {
+            pending.reject(errorFromRpc(response.error));
+        } else {
+            pending.resolve(response.result);
+        }
+    }
+
+    private async handleIntent(peer: Peer, session: A2gAgentSession, intent: A2gIntent): Promise<void> {
+        const check = validateIntent(intent);
+        if (!check.valid) {
+            this.rejectInvalid(peer, session, intent, `Invalid intent: ${check.errors.join("; ")}`);
+            return;
+        }
+        const params = intent.params;
+
+        if (session.agentDid && params.agent_did !== session.agentDid) {
+            this.sendError(peer, intent.id, A2G_ERROR_CODES.UNAUTHORIZED, "agent_did does not match the authenticated agent");
+            return;
+        }
+
+        if (session.agentKey) {
+            const signature = params.context?.signature;
+            const result = signature
+                ? Signer.verifyDetailed(session.agentKey.key, signature, intentSigningPayload(params), {
+                    keyType: session.agentKey.keyType,
+                    maxAgeMs: this.config.maxSignatureAgeMs,
+                })
+                : null;
+            if (!result?.ok) {
+                const reason = result ? `${result.status}: ${result.reason}` : "missing signature";
+                this.sendError(peer, intent.id, A2G_ERROR_CODES.INVALID_SIGNATURE, `Intent signature rejected (${reason})`);
+                return;
+            }
+        } else if (this.config.requireSignatures !== false) {
+            this.sendError(peer, intent.id, A2G_ERROR_CODES.UNAUTHORIZED, "Unauthenticated agent");
+            return;
+        }
+
+        this.emit("intent", params, session);
+
+        let verdict: G2aVerdict;
+        try {
+            const decision = await this.config.policy(params, session);
+            verdict = {
+                jsonrpc: "2.0",
+                id: intent.id,
+                result: { ...decision, intent_id: params.intent_id },
+            };
+        } catch (err) {
+            this.sendError(peer, intent.id, A2G_ERROR_CODES.INTERNAL_ERROR, `Policy error: ${(err as Error).message}`);
+            return;
+        }
+
+        // Never send agents a verdict they would reject
+        const verdictCheck = validateVerdict(verdict);
+        if (!verdictCheck.valid) {
+            this.sendError(peer, intent.id, A2G_ERROR_CODES.INTERNAL_ERROR, `Policy returned an invalid verdict: ${verdictCheck.errors.join("; ")}`);
+            return;
+        }
+
+        if (verdict.result?.verdict === "ESCALATE") {
+            // Maps iterate in insertion order: the first key is the oldest escalation
+            const maxEscalations = this.config.maxEscalations ?? DEFAULT_MAX_ESCALATIONS;
+            while (this.escalations.size >= maxEscalations) {
+                this.escalations.delete(this.escalations.keys().next().value!);
+            }
+            this.escalations.set(params.intent_id, {
+                peer: peer.persistent ? peer : undefined,
+                agentDid: session.agentDid,
+            });
+            this.emit("escalation", params, session);
+        }
+
+        this.emit("verdict", verdict, session);
+        peer.send(verdict);
+    }
+
+    private handleStatus(peer: Peer, session: A2gAgentSession, request: A2gStatusRequest): void {
+        const intentId = request.params?.intent_id;
+        const escalation = intentId ? this.escalations.get(intentId) : undefined;
+        if (!escalation || (session.agentDid && escalation.agentDid !== session.agentDid)) {
+            this.sendError(peer, request.id, A2G_ERROR_CODES.INVALID_PARAMS, `Unknown escalated intent: ${intentId}`);
+            return;
+        }
+
+        // Follow-up pushes go to the agent's current connection
+        if (peer.persistent) {
+            escalation.peer = peer;
+        }
+
+        const response: G2aStatusResponse = {
+            jsonrpc: "2.0",
+            id: request.id,
+            result: {
+                intent_id: intentId,
+                status: escalation.resolution ? "RESOLVED" : "PENDING",
+                resolution: escalation.resolution,
+            },
+        };
+        // The agent has its resolution; nothing is left to answer for this intent
+        if (escalation.resolution) {
+            this.escalations.delete(intentId!);
+        }
+        peer.send(response);
+    }
+
+    private async handleReport(peer: Peer, session: A2gAgentSession, report: A2gReport): Promise<void> {
+        const check = validateReport(report);
+        if (!check.valid) {
+            this.rejectInvalid(peer, session, report, `Invalid report: ${check.errors.join("; ")}`);
+            return;
+        }
+        const params = report.params;
+        if (session.agentDid && params.agent_did !== session.agentDid) {
+            this.sendError(peer, report.id ?? null, A2G_ERROR_CODES.UNAUTHORIZED, "agent_did does not match the authenticated agent");
+            return;
+        }
+
+        this.collectedReports.push(params);
+        this.emit("report", params, session);
+        await this.config.onReport?.(params, session);
+
+        // A report with an id is a request: acknowledge it
+        if (report.id !== undefined) {
+            peer.send({ jsonrpc: "2.0", id: report.id, result: {} });
+        }
+    }
+
+    private rejectInvalid(peer: Peer, session: A2gAgentSession, message: { id?: string }, reason: string): void {
+        this.emit("invalidMessage", new A2gProtocolError(A2G_ERROR_CODES.INVALID_PARAMS, reason), message, session);
+        this.sendError(peer, typeof message.id === "string" ? message.id : null, A2G_ERROR_CODES.INVALID_PARAMS, reason);
+    }
+
+    private sendError(peer: Peer, id: string | null, code: number, message: string): void {
+        peer.send({ jsonrpc: "2.0", id, error: { code, message } });
+    }
+}
+
+function header(headers: IncomingHttpHeaders, name: string): string | undefined {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+function send(ws: WebSocket, message: unknown): void {
+    if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(message));
+    }
+}
@@ -0,0 +1,77 @@
+/**
+ * HttpTransport against A2gServer: opening probes the engine, escalations
+ * are resolved by polling.
+ */
+
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { A2gClient } from "./client.js";
+import { A2gAuthError, A2gConnectionError } from "./errors.js";
+import { silentLogger } from "./logging.js";
+import { A2gServer } from "./server.js";
+import { HttpTransport } from "./transport.js";
+
+describe("HttpTransport", () => {
+    let server: A2gServer;
+    let httpUrl: string;
+
+    beforeEach(async () => {
+        server = new A2gServer({
+            requireSignatures: false,
+            apiKeys: ["secret"],
+            policy: (intent) => ({
+                verdict: intent.tool === "wire_transfer" ? "ESCALATE" : "APPROVED",
+                risk_assessment: { score: 0, level: "LOW", threats: [] },
+            }),
+        });
+        await server.listen();
+        httpUrl = server.url.replace(/^ws/, "http");
+    });
+
+    afterEach(async () => {
+        await server.close();
+    });
+
+    it("opens and sends intents once the probe is answered", async () => {
+        const client = new A2gClient(httpUrl, "did:aeon:test-agent", { logger: silentLogger, apiKey: "secret" });
+
+        await client.connect();
+        const verdict = await client.requestIntent("read_file", {});
+
+        assert.equal(verdict.result?.verdict, "APPROVED");
+        client.disconnect();
+    });
+
+    it("resolves an escalation by polling a2g/status", async () => {
+        const client = new A2gClient(httpUrl, "did:aeon:test-agent", {
+            logger: silentLogger,
+            apiKey: "secret",
+            escalationPollIntervalMs: 20,
+        });
+        await client.connect();
+        const verdict = await client.requestIntent("wire_transfer", { amount: 10_000 });
+        const intentId = verdict.result!.intent_id;
+
+        const resolution = client.awaitResolution(intentId, 2000);
+        server.resolveEscalation(intentId, { verdict: "APPROVED", resolved_by: "reviewer-1" });
+
+        assert.equal(verdict.result?.verdict, "ESCALATE");
+        assert.equal((await resolution).verdict, "APPROVED");
+        client.disconnect();
+    });
+
+    it("fails to open with rejected credentials", async () => {
+        const transport = new HttpTransport(httpUrl);
+
+        await assert.rejects(transport.open(() => ({ Authorization: "Bearer wrong" })), A2gAuthError);
+        assert.equal(transport.isOpen, false);
+    });
+
+    it("fails to open when the engine is unreachable", async () => {
+        await server.close();
+        const transport = new HttpTransport(httpUrl);
+
+        await assert.rejects(transport.open(() => ({})), A2gConnectionError);
+        assert.equal(transport.isOpen, false);
+    });
+});
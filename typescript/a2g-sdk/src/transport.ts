@@ -0,0 +1,309 @@
+import { spawn } from "child_process";
+import type { ChildProcess } from "child_process";
+import { EventEmitter } from "events";
+import { createInterface } from "readline";
+import type { Interface } from "readline";
+import type { Readable, Writable } from "stream";
+import WebSocket from "ws";
+import type { A2gTransport, StdioTransportOptions, WebSocketTransportOptions } from "./types.js";
+import { A2G_ERROR_CODES } from "./protocol.js";
+import { A2gAuthError, A2gConnectionError } from "./errors.js";
+
+/**
+ * Close code reported when a transport loses its connection abnormally
+ * (same meaning as the WebSocket code).
+ */
+const ABNORMAL_CLOSURE = 1006;
+
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 30000;
+
+/**
+ * JSON-RPC over a WebSocket; auth headers go on the upgrade request.
+ * Supports server pushes. Pings the engine to detect half-open sockets.
+ */
+export class WebSocketTransport extends EventEmitter implements A2gTransport {
+    private ws: WebSocket | null = null;
+
+    constructor(
+        private url: string,
+        private options: WebSocketTransportOptions = {}
+    ) {
+        super();
+    }
+
+    get isOpen(): boolean {
+        return this.ws?.readyState === WebSocket.OPEN;
+    }
+
+    open(headers: () => Record<string, string>): Promise<void> {
+        return new Promise((resolve, reject) => {
+            // Never replace a live socket; its handlers would be orphaned
+            if (this.isOpen) {
+                resolve();
+                return;
+            }
+            const ws = new WebSocket(this.url, { headers: headers() });
+            this.ws = ws;
+
+            ws.on("open", () => {
+                this.startHeartbeat(ws);
+                resolve();
+            });
+            ws.on("error", (err) => reject(handshakeError(err)));
+            ws.on("message", (data) => this.emit("message", data.toString()));
+            ws.on("close", (code) => {
+                if (this.ws === ws) {
+                    this.ws = null;
+                }
+                this.emit("close", code);
+            });
+        });
+    }
+
+    send(message: object): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+                reject(new A2gConnectionError("A2G connection closed"));
+                return;
+            }
+            this.ws.send(JSON.stringify(message), (err) => (
+                err ? reject(new A2gConnectionError(`A2G send failed: ${err.message}`, undefined, { cause: err })) : resolve()
+            ));
+        });
+    }
+
+    close(code = 1000): void {
+        this.ws?.close(code);
+    }
+
+    private startHeartbeat(ws: WebSocket): void {
+        const intervalMs = this.options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+        if (!intervalMs) return;
+
+        let alive = true;
+        ws.on("pong", () => {
+            alive = true;
+        });
+        const timer = setInterval(() => {
+            if (!alive) {
+                // No pong since the last ping: the peer is gone without a FIN
+                ws.terminate();
+                return;
+            }
+            alive = false;
+            ws.ping();
+        }, intervalMs);
+        timer.unref();
+        ws.once("close", () => clearInterval(timer));
+    }
+}
+
+/**
+ * JSON-RPC over HTTP POST, one message per request, for serverless and
+ * short-lived agents. Every request carries freshly signed auth headers.
+ * The response body (if any) is the JSON-RPC reply; the engine cannot push,
+ * so escalations need `escalationPollIntervalMs`. Opening probes the engine
+ * with an `a2g/ping` request, so an unreachable engine or rejected
+ * credentials fail `connect()` as they would for a WebSocket.
+ */
+export class HttpTransport extends EventEmitter implements A2gTransport {
+    private headers: (() => Record<string, string>) | null = null;
+
+    constructor(private url: string) {
+        super();
+    }
+
+    get isOpen(): boolean {
+        return this.headers !== null;
+    }
+
+    async open(headers: () => Record<string, string>): Promise<void> {
+        // Any JSON-RPC answer (even METHOD_NOT_FOUND) shows the engine is up and accepts us
+        const response = await this.post(headers, { jsonrpc: "2.0", id: "a2g-probe", method: "a2g/ping" });
+        if (response.status === 401 || response.status === 403) {
+            throw new A2gAuthError(A2G_ERROR_CODES.UNAUTHORIZED, `Engine rejected the agent with HTTP ${response.status}`);
+        }
+        if (!response.ok) {
+            throw new A2gConnectionError(`A2G engine at ${this.url} answered HTTP ${response.status} ${response.statusText}`);
+        }
+        await response.body?.cancel();
+        this.headers = headers;
+    }
+
+    async send(message: object): Promise<void> {
+        if (!this.headers) {
+            throw new A2gConnectionError("A2G connection closed");
+        }
+
+        let response: Response;
+        try {
+            response = await this.post(this.headers, message);
+        } catch (err) {
+            // Unreachable engine: behave like a dropped socket
+            this.headers = null;
+            this.emit("close", ABNORMAL_CLOSURE);
+            throw err;
+        }
+
+        const body = await response.text();
+        if (body.trim()) {
+            this.emit("message", body);
+        } else if (!response.ok && "id" in message) {
+            this.emit("message", JSON.stringify({
+                jsonrpc: "2.0",
+                id: (message as { id: unknown }).id,
+                error: {
+                    code: response.status === 401 ? A2G_ERROR_CODES.UNAUTHORIZED : A2G_ERROR_CODES.INTERNAL_ERROR,
+                    message: `HTTP ${response.status} ${response.statusText}`,
+                },
+            }));
+        }
+    }
+
+    close(code = 1000): void {
+        if (!this.headers) return;
+        this.headers = null;
+        this.emit("close", code);
+    }
+
+    private async post(headers: () => Record<string, string>, message: object): Promise<Response> {
+        try {
+            return await fetch(this.url, {
+                method: "POST",
+                headers: { ...headers(), "Content-Type": "application/json" },
+                body: JSON.stringify(message),
+            });
+        } catch (err) {
+            throw new A2gConnectionError(
+                `A2G engine unreachable at ${this.url}: ${(err as Error).message}`,
+                ABNORMAL_CLOSURE,
+                { cause: err }
+            );
+        }
+    }
+}
+
+/**
+ * JSON-RPC over newline-delimited JSON on stdio, for sidecar deployments.
+ * Either spawns the sidecar (`command`) or uses the given streams.
+ * The first line sent is an `a2g/handshake` notification carrying the
+ * auth headers; A2gServer.serveStdio speaks the other side.
+ *
+ * @example
+ * ```typescript
+ * const client = new A2gClient("stdio:", did.did, {
+ *     signingKey: did.signingKey,
+ *     transport: new StdioTransport({ command: "aeon-sidecar", args: ["--stdio"] }),
+ * });
+ * ```
+ */
+export class StdioTransport extends EventEmitter implements A2gTransport {
+    private child: ChildProcess | null = null;
+    private output: Writable | null = null;
+    private lines: Interface | null = null;
+
+    constructor(private options: StdioTransportOptions) {
+        super();
+        if (!options.command && !(options.input && options.output)) {
+            throw new Error("StdioTransport: command or input and output are required");
+        }
+    }
+
+    get isOpen(): boolean {
+        return this.output !== null;
+    }
+
+    async open(headers: () => Record<string, string>): Promise<void> {
+        let input: Readable;
+        let output: Writable;
+
+        if (this.options.command) {
+            const child = spawn(this.options.command, this.options.args || [], {
+                stdio: ["pipe", "pipe", "inherit"],
+            });
+            await new Promise<void>((resolve, reject) => {
+                child.once("spawn", resolve);
+                child.once("error", (err) => reject(new A2gConnectionError(
+                    `A2G sidecar ${this.options.command} failed to start: ${err.message}`,
+                    undefined,
+                    { cause: err }
+                )));
+            });
+            child.once("exit", () => this.handleClose(ABNORMAL_CLOSURE));
+            this.child = child;
+            input = child.stdout!;
+            output = child.stdin!;
+        } else {
+            input = this.options.input!;
+            output = this.options.output!;
+        }
+
+        this.output = output;
+        this.lines = createInterface({ input });
+        this.lines.on("line", (line) => {
+            if (line.trim()) {
+                this.emit("message", line);
+            }
+        });
+        this.lines.once("close", () => this.handleClose(ABNORMAL_CLOSURE));
+
+        await this.send({ jsonrpc: "2.0", method: "a2g/handshake", params: { headers: headers() } });
+    }
+
+    send(message: object): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (!this.output) {
+                reject(new A2gConnectionError("A2G connection closed"));
+                return;
+            }
+            this.output.write(JSON.stringify(message) + "\n", (err) => (
+                err ? reject(new A2gConnectionError(`A2G send failed: ${err.message}`, undefined, { cause: err })) : resolve()
+            ));
+        });
+    }
+
+    close(code = 1000): void {
+        this.handleClose(code);
+    }
+
+    private handleClose(code: number): void {
+        if (!this.output) return;
+        this.output = null;
+
+        const lines = this.lines;
+        this.lines = null;
+        lines?.removeAllListeners("close");
+        lines?.close();
+
+        if (this.child) {
+            this.child.removeAllListeners("exit");
+            this.child.kill();
+            this.child = null;
+        }
+        this.emit("close", code);
+    }
+}
+
+/**
+ * Classify a failed WebSocket handshake: 401/403 are auth failures.
+ */
+function handshakeError(err: Error): Error {
+    const status = /Unexpected server response: (\d+)/.exec(err.message)?.[1];
+    if (status === "401" || status === "403") {
+        return new A2gAuthError(A2G_ERROR_CODES.UNAUTHORIZED, `Handshake rejected with HTTP ${status}`);
+    }
+    return new A2gConnectionError(`A2G connection failed: ${err.message}`, undefined, { cause: err });
+}
+
+/**
+ * Pick a transport from a URL scheme: ws(s):// or http(s)://.
+ */
+export function createTransport(url: string, options: WebSocketTransportOptions = {}): A2gTransport {
+    if (url.startsWith("ws://") || url.startsWith("wss://")) {
+        return new WebSocketTransport(url, options);
+    }
+    if (url.startsWith("http://") || url.startsWith("https://")) {
+        return new HttpTransport(url);
+    }
+    throw new Error(`A2G: no transport for ${url}; pass config.transport (e.g. StdioTransport)`);
+}
@@ -1,3 +1,7 @@
+import type { Server } from "http";
+import type { Readable, Writable } from "stream";
+import type { KeyType } from "@aeon/did-sdk";
+
 export interface A2gSignatureContext {
     timestamp: string;
     nonce: string;
@@ -16,12 +20,56 @@ export interface A2gIntent {
             session_id?: string;
             parent_intent?: string;
             reasoning?: string;
+            /** W3C trace context of the agent span that requested the intent */
+            traceparent?: string;
+            tracestate?: string;
             signature?: A2gSignatureContext;
         };
     };
     id: string;
 }
 
+/**
+ * Per-call options for `A2gClient.requestIntent`. The session, parent
+ * intent and reasoning go into `params.context` and are signed with the
+ * intent; the engine uses them for risk scoring.
+ */
+export interface A2gIntentOptions {
+    /**
+     * Give up waiting for the verdict after this many milliseconds.
+     * @default config.requestTimeoutMs
+     */
+    timeoutMs?: number;
+
+    /** Cancel the request; it rejects with `signal.reason` */
+    signal?: AbortSignal;
+
+    /** Conversation or task the intent belongs to (`context.session_id`) */
+    sessionId?: string;
+
+    /** intent_id of the intent that led to this one (`context.parent_intent`) */
+    parentIntent?: string;
+
+    /** The agent's stated reason for the action (`context.reasoning`) */
+    reasoning?: string;
+}
+
+/**
+ * One candidate action for `A2gClient.requestIntents`.
+ */
+export interface A2gIntentCall extends Pick<A2gIntentOptions, "sessionId" | "parentIntent" | "reasoning"> {
+    tool: string;
+    args: Record<string, unknown>;
+}
+
+export interface CapabilityManifest {
+    max_memory_mb?: number;
+    max_cpu_percent?: number;
+    timeout_seconds?: number;
+    network_allowed?: boolean;
+    filesystem_scope?: string[];
+}
+
 export interface G2aVerdict {
     jsonrpc: "2.0";
     id: string;
@@ -33,14 +81,60 @@ export interface G2aVerdict {
             level: "CRITICAL" | "HIGH" | "MEDIUM" | "LOW";
             threats: string[];
         };
-        capability_manifest?: {
-            max_memory_mb?: number;
-            max_cpu_percent?: number;
-            timeout_seconds?: number;
-            network_allowed?: boolean;
-            filesystem_scope?: string[];
-        };
+        capability_manifest?: CapabilityManifest;
         conditions?: string[];
+        /** Set when the agent decided from its local policy because the engine was unreachable */
+        decided_locally?: boolean;
+    };
+    error?: {
+        code: number;
+        message: string;
+        data?: unknown;
+    };
+}
+
+/**
+ * Outcome of a human review of an escalated intent.
+ */
+export interface G2aResolutionParams {
+    intent_id: string;
+    verdict: "APPROVED" | "DENIED" | "CONDITIONAL";
+    /** Who decided (e.g., reviewer ID) */
+    resolved_by?: string;
+    reason?: string;
+    capability_manifest?: CapabilityManifest;
+    conditions?: string[];
+}
+
+/**
+ * Server push: an escalated intent was resolved.
+ */
+export interface G2aResolution {
+    jsonrpc: "2.0";
+    method: "g2a/resolution";
+    params: G2aResolutionParams;
+}
+
+/**
+ * Poll the state of an escalated intent.
+ */
+export interface A2gStatusRequest {
+    jsonrpc: "2.0";
+    method: "a2g/status";
+    params: {
+        agent_did: string;
+        intent_id: string;
+    };
+    id: string;
+}
+
+export interface G2aStatusResponse {
+    jsonrpc: "2.0";
+    id: string;
+    result?: {
+        intent_id: string;
+        status: "PENDING" | "RESOLVED" | "EXPIRED";
+        resolution?: G2aResolutionParams;
     };
     error?: {
         code: number;
@@ -49,6 +143,80 @@ export interface G2aVerdict {
     };
 }
 
+/**
+ * Server push without a reply (JSON-RPC notification).
+ */
+export interface G2aNotification<P = unknown> {
+    jsonrpc: "2.0";
+    method: string;
+    params?: P;
+}
+
+/**
+ * Server-initiated request; the agent must answer with an A2gResponse.
+ */
+export interface G2aRequest<P = unknown> {
+    jsonrpc: "2.0";
+    method: string;
+    params?: P;
+    id: string;
+}
+
+/**
+ * Agent's answer to a G2aRequest.
+ */
+export interface A2gResponse<R = unknown> {
+    jsonrpc: "2.0";
+    id: string;
+    result?: R;
+    error?: {
+        code: number;
+        message: string;
+        data?: unknown;
+    };
+}
+
+/**
+ * `g2a/policy_update`: the engine's policy changed; cached decisions are stale.
+ */
+export interface G2aPolicyUpdateParams {
+    policy_version?: string;
+    /** Tools affected by the change (all if omitted) */
+    tools?: string[];
+    reason?: string;
+    /** New fallback policy; replaces the client's cached local policy */
+    local_policy?: A2gLocalPolicy;
+}
+
+/**
+ * `g2a/capability_revoked`: the engine withdrew an approval.
+ * Running governed tools that match are aborted; with neither `intent_id`
+ * nor `tool`, all of them are.
+ */
+export interface G2aCapabilityRevokedParams {
+    intent_id?: string;
+    tool?: string;
+    reason?: string;
+}
+
+/**
+ * `g2a/disconnect`: the engine is closing the connection.
+ */
+export interface G2aDisconnectParams {
+    reason?: string;
+    /**
+     * Whether the agent may reconnect (auto-reconnect applies).
+     * @default false
+     */
+    reconnect?: boolean;
+}
+
+/**
+ * Answers a server-initiated request. Throw A2gRpcError to choose the
+ * JSON-RPC error code; other errors become INTERNAL_ERROR.
+ */
+export type A2gRequestHandler = (params: unknown) => unknown | Promise<unknown>;
+
 export interface A2gReport {
     jsonrpc: "2.0";
     method: "a2g/report";
@@ -61,10 +229,274 @@ export interface A2gReport {
         metrics?: {
             duration_ms: number;
         };
+        /** The action ran on a locally decided verdict */
+        decided_locally?: boolean;
     };
-    id: string;
+    /**
+     * Reports are notifications: without an id no reply is sent. With one
+     * the engine acknowledges the report with an empty result.
+     */
+    id?: string;
+}
+
+/**
+ * Allow/deny rules used while the engine is unreachable.
+ * Tool patterns are exact names or end in "*" (prefix match);
+ * deny wins over allow.
+ */
+export interface A2gLocalPolicy {
+    allow?: string[];
+    deny?: string[];
+
+    /**
+     * Verdict for tools matching neither list.
+     * @default "DENIED"
+     */
+    default?: "APPROVED" | "DENIED";
+
+    /** Manifest attached to locally approved verdicts */
+    capability_manifest?: CapabilityManifest;
+}
+
+/**
+ * Store for reports that could not be delivered.
+ */
+export interface ReportQueue {
+    /** Append a report */
+    push(report: A2gReport["params"]): Promise<void>;
+
+    /**
+     * Hand queued reports to `deliver`, oldest first. A report is removed
+     * only once `deliver` resolves for it; when `deliver` rejects, that
+     * report and the ones after it stay queued for the next drain.
+     *
+     * @returns Number of reports delivered
+     */
+    drain(deliver: (report: A2gReport["params"]) => Promise<void>): Promise<number>;
+}
+
+/**
+ * One entry of the agent's audit ledger.
+ * `hash` is SHA-256 over the JCS-canonical record without `hash` and
+ * `signature`; `signature` signs `hash` with the agent's DID key.
+ */
+export interface LedgerRecord {
+    seq: number;
+    type: "intent" | "verdict" | "report";
+    agent_did: string;
+    intent_id: string;
+    /** ISO 8601 time the record was written */
+    recorded_at: string;
+    /** The A2gIntent, G2aVerdict or A2gReport as sent or received */
+    message: unknown;
+    /** `hash` of the previous record (64 zeros for the first) */
+    prev_hash: string;
+    hash: string;
+    signature: A2gSignatureContext;
+}
+
+/**
+ * Append-only storage for ledger records.
+ */
+export interface LedgerStore {
+    append(record: LedgerRecord): Promise<void>;
+
+    /** All records, in order; null for one that could not be parsed */
+    read(): Promise<(LedgerRecord | null)[]>;
+
+    /** The newest record, or null if the ledger is empty */
+    last(): Promise<LedgerRecord | null>;
+}
+
+export type LedgerIssueKind = "hash-mismatch" | "broken-chain" | "gap" | "bad-signature" | "head-mismatch";
+
+/**
+ * Result of `verifyLedger`.
+ */
+export interface LedgerVerification {
+    /** True if no issues were found */
+    ok: boolean;
+
+    /** Number of records checked */
+    count: number;
+
+    /** Hash of the last record (compare with a copy kept elsewhere to detect truncation) */
+    head?: string;
+
+    issues: Array<{
+        /** Position in the ledger */
+        index: number;
+        kind: LedgerIssueKind;
+        reason: string;
+    }>;
+}
+
+/**
+ * Carries JSON-RPC messages between A2gClient and the engine.
+ * Emits "message" (raw JSON text) and "close" (close code; 1000 means an
+ * intentional close). The client handles timeouts and reconnection.
+ */
+export interface A2gTransport {
+    /** Whether messages can be sent */
+    readonly isOpen: boolean;
+
+    /**
+     * Connect. `headers` returns freshly signed auth headers; transports
+     * that authenticate every message call it once per message.
+     */
+    open(headers: () => Record<string, string>): Promise<void>;
+
+    /** Send one message; rejects if it could not be delivered */
+    send(message: object): Promise<void>;
+
+    close(code?: number): void;
+
+    on(event: "message", listener: (data: string) => void): this;
+    on(event: "close", listener: (code: number) => void): this;
+}
+
+/**
+ * Structured fields attached to a log entry (e.g. agent_did, intent_id, verdict).
+ */
+export type A2gLogFields = Record<string, unknown>;
+
+/**
+ * Destination for the client's log output. Adapters for pino, winston or
+ * bunyan are one-liners; use `silentLogger` to turn logging off.
+ */
+export interface A2gLogger {
+    debug(message: string, fields?: A2gLogFields): void;
+    info(message: string, fields?: A2gLogFields): void;
+    warn(message: string, fields?: A2gLogFields): void;
+    error(message: string, fields?: A2gLogFields): void;
+}
+
+/**
+ * The subset of an OpenTelemetry Span the client uses.
+ */
+export interface A2gSpan {
+    setAttribute(key: string, value: string | number | boolean): unknown;
+    setStatus(status: { code: number; message?: string }): unknown;
+    recordException(exception: Error): unknown;
+    spanContext(): { traceId: string; spanId: string; traceFlags: number; traceState?: { serialize(): string } };
+    end(): void;
+}
+
+/**
+ * The subset of an OpenTelemetry Tracer the client uses, so
+ * `trace.getTracer("@aeon/a2g-sdk")` can be passed without this package
+ * depending on @opentelemetry/api.
+ */
+export interface A2gTracer {
+    startSpan(name: string, options?: { kind?: number; attributes?: Record<string, string | number | boolean> }): A2gSpan;
+}
+
+/**
+ * Cumulative histogram: `buckets[i]` counts observations <= `bounds[i]`.
+ */
+export interface A2gHistogramSnapshot {
+    bounds: number[];
+    buckets: number[];
+    sum: number;
+    count: number;
+}
+
+/**
+ * Point-in-time view of an A2gClient's counters (all cumulative since creation).
+ */
+export interface A2gMetricsSnapshot {
+    agent_did: string;
+
+    /** Round-trip time of requests answered by the engine, per JSON-RPC method, e.g. request_latency_ms["a2g/intent"] */
+    request_latency_ms: Record<string, A2gHistogramSnapshot>;
+
+    /** Verdict counts per tool, e.g. verdicts.write_file.DENIED */
+    verdicts: Record<string, Partial<Record<G2aVerdictResult["verdict"], number>>>;
+
+    /** Verdict counts per risk_assessment.level */
+    risk_levels: Partial<Record<G2aVerdictResult["risk_assessment"]["level"], number>>;
+
+    /** Intents answered by the local policy */
+    local_decisions: number;
+
+    /** JSON-RPC error responses to intents */
+    request_errors: number;
+
+    /** Requests and connection attempts that timed out */
+    timeouts: number;
+
+    connected: boolean;
+    connections: number;
+    disconnects: number;
+    reconnect_attempts: number;
+    reconnect_failures: number;
+
+    /** Times auto-reconnect gave up after the maximum number of attempts */
+    reconnects_exhausted: number;
+}
+
+/**
+ * Options for WebSocketTransport.
+ */
+export interface WebSocketTransportOptions {
+    /**
+     * Send a WebSocket ping at this interval; if no pong arrived since the
+     * previous ping the socket is considered half-open and terminated
+     * (close code 1006), which triggers auto-reconnect. 0 disables.
+     * @default 30000
+     */
+    heartbeatIntervalMs?: number;
+}
+
+/**
+ * Options for StdioTransport.
+ */
+export interface StdioTransportOptions {
+    /** Sidecar executable to spawn */
+    command?: string;
+    args?: string[];
+
+    /** Use existing streams instead of spawning (e.g. process.stdin/stdout) */
+    input?: Readable;
+    output?: Writable;
+}
+
+/**
+ * How A2gClient retries after losing its connection. The delay before
+ * attempt n is min(baseDelayMs * 2^(n-1), maxDelayMs) plus a random jitter.
+ */
+export interface A2gReconnectPolicy {
+    /**
+     * Attempts before giving up (state "failed"); Infinity retries forever.
+     * @default 5
+     */
+    maxAttempts?: number;
+
+    /** @default 1000 */
+    baseDelayMs?: number;
+
+    /** @default 30000 */
+    maxDelayMs?: number;
+
+    /**
+     * Upper bound of the random delay added to each backoff.
+     * @default 1000
+     */
+    jitterMs?: number;
 }
 
+/**
+ * Connection lifecycle of A2gClient, emitted as `stateChange` and as an
+ * event of the same name.
+ *
+ * - connecting: `connect()` in progress
+ * - open: connected
+ * - reconnecting: connection lost, retrying per the reconnect policy
+ * - closed: not connected (initial state, `disconnect()`, or no auto-reconnect)
+ * - failed: gave up after `reconnect.maxAttempts`
+ */
+export type A2gConnectionState = "connecting" | "open" | "reconnecting" | "closed" | "failed";
+
 /**
  * Configuration options for the A2G client.
  */
@@ -76,18 +508,18 @@ export interface A2gClientConfig {
     apiKey?: string;
 
     /**
-     * Signing key for HMAC-SHA256 DID authentication.
+     * Signing key for DID authentication (HMAC-SHA256 key or Ed25519 private key).
      * Used to cryptographically prove agent identity.
      * 
      * Connection headers:
      * - X-Agent-DID: The agent's DID
      * - X-Timestamp: Unix timestamp in milliseconds
      * - X-Nonce: Unique request ID (UUIDv4)
-     * - X-Signature: HMAC-SHA256 of "did:timestamp:nonce"
+     * - X-Signature: Signature of "timestamp:nonce:did"
      * 
      * Request signatures:
      * - Each intent includes a signature.hash in context
-     * - Hash is HMAC-SHA256 of the intent params JSON
+     * - Hash is the signature of the intent params JSON
      * 
      * Recommended: Use a 32-byte (256-bit) random key.
      * Generate with: crypto.randomBytes(32).toString('hex')
@@ -95,7 +527,15 @@ export interface A2gClientConfig {
     signingKey?: string;
 
     /**
-     * Timeout for WebSocket connection in milliseconds.
+     * Algorithm used with `signingKey`.
+     * With "ed25519" the engine verifies against the public key published
+     * in the agent's DID document and never needs the private key.
+     * @default "hmac-sha256"
+     */
+    keyType?: KeyType;
+
+    /**
+     * Timeout for opening the connection in milliseconds.
      * @default 10000
      */
     connectionTimeoutMs?: number;
@@ -106,9 +546,313 @@ export interface A2gClientConfig {
      */
     requestTimeoutMs?: number;
 
+    /**
+     * Reject `requestIntent` with the mapped error class (A2gAuthError,
+     * A2gProtocolError, A2gRpcError) when the engine answers with a JSON-RPC
+     * error, instead of resolving with `error` set.
+     * @default false
+     */
+    strict?: boolean;
+
     /**
      * Whether to automatically reconnect on connection loss.
      * @default true
      */
     autoReconnect?: boolean;
+
+    /**
+     * Keep intents that were awaiting a verdict when the connection dropped
+     * and re-send them, freshly signed, once auto-reconnect succeeds, instead
+     * of rejecting them with A2gConnectionError. The intent_id is unchanged
+     * so the engine can deduplicate. They still fail if the request timeout
+     * passes or reconnecting gives up first.
+     * @default false
+     */
+    replayInFlight?: boolean;
+
+    /**
+     * Backoff and retry limits for auto-reconnect.
+     */
+    reconnect?: A2gReconnectPolicy;
+
+    /**
+     * Ping interval for the default WebSocket transport, see
+     * WebSocketTransportOptions. Ignored with a custom `transport`.
+     * @default 30000
+     */
+    heartbeatIntervalMs?: number;
+
+    /**
+     * Called when the engine escalates an intent to a human.
+     * Use `awaitResolution(verdict.intent_id)` to wait for the decision.
+     */
+    onEscalation?: (verdict: G2aVerdictResult, tool: string) => void;
+
+    /**
+     * How long `awaitResolution` and governed tools wait for a human decision.
+     * A resolution nobody has awaited yet is kept this long after the verdict.
+     * @default 300000
+     */
+    escalationTimeoutMs?: number;
+
+    /**
+     * Poll `a2g/status` at this interval while awaiting a resolution,
+     * for engines that do not push `g2a/resolution`.
+     * If unset, only pushed resolutions are used.
+     */
+    escalationPollIntervalMs?: number;
+
+    /**
+     * Where reports go while the engine is unreachable; they are sent on
+     * the next successful connection. The default keeps them in memory only,
+     * so they are lost when the process exits: use FileReportQueue to
+     * survive restarts, or false to drop them.
+     * @default new MemoryReportQueue()
+     */
+    reportQueue?: ReportQueue | false;
+
+    /**
+     * Decide intents locally when the engine cannot be reached, instead of
+     * failing. Such verdicts have `decided_locally: true`. Unlisted tools are
+     * denied unless the policy says otherwise. Replaced by `local_policy` in
+     * `g2a/policy_update` pushes.
+     */
+    localPolicy?: A2gLocalPolicy;
+
+    /**
+     * Record every intent, verdict and report in a hash-chained ledger
+     * signed with `signingKey` (required). Check it with `verifyLedger`.
+     */
+    ledger?: LedgerStore;
+
+    /**
+     * Where log output goes. Use `jsonLogger()` to include info messages,
+     * `consoleLogger` for human-readable output.
+     * @default jsonLogger("warn")
+     */
+    logger?: A2gLogger;
+
+    /**
+     * OpenTelemetry tracer: `requestIntent` and `requestIntents` run in an
+     * "a2g.intent" span whose trace context is sent in `params.context.traceparent`.
+     */
+    tracer?: A2gTracer;
+
+    /**
+     * How messages reach the engine.
+     * @default WebSocketTransport for ws(s):// URLs, HttpTransport for http(s)://
+     */
+    transport?: A2gTransport;
+}
+
+/**
+ * Body of a successful verdict.
+ */
+export type G2aVerdictResult = NonNullable<G2aVerdict["result"]>;
+
+/**
+ * Key used to verify an agent's signatures.
+ */
+export interface A2gAgentKey {
+    /** HMAC-SHA256 signing key, or Ed25519 public key */
+    key: string;
+
+    /** @default "hmac-sha256" */
+    keyType?: KeyType;
+}
+
+/**
+ * An authenticated agent connection on the server side.
+ */
+export interface A2gAgentSession {
+    /** Agent DID from the handshake (undefined if unauthenticated connections are allowed) */
+    agentDid?: string;
+
+    /** Verification key resolved for the agent */
+    agentKey?: A2gAgentKey;
+
+    /** Remote address of the connection */
+    remoteAddress?: string;
+}
+
+/**
+ * Configuration options for the A2G server.
+ */
+export interface A2gServerConfig {
+    /**
+     * Port to listen on (0 picks a free port).
+     * Ignored when `server` is given.
+     * @default 0
+     */
+    port?: number;
+
+    /**
+     * Host to bind to.
+     * @default "127.0.0.1"
+     */
+    host?: string;
+
+    /**
+     * Existing HTTP(S) server to attach to instead of listening on `port`.
+     */
+    server?: Server;
+
+    /**
+     * Looks up the verification key for an agent DID.
+     * Return null for unknown agents.
+     */
+    resolveAgentKey?: (agentDid: string) => Promise<A2gAgentKey | null> | A2gAgentKey | null;
+
+    /**
+     * Reject handshakes and intents without a valid DID signature.
+     * Requires `resolveAgentKey`.
+     * @default true
+     */
+    requireSignatures?: boolean;
+
+    /**
+     * Accepted API keys (`Authorization: Bearer <key>`).
+     * If unset, API keys are not checked.
+     */
+    apiKeys?: string[];
+
+    /**
+     * Decides on each verified intent.
+     * Thrown errors are returned to the agent as JSON-RPC internal errors.
+     */
+    policy: (
+        intent: A2gIntent["params"],
+        session: A2gAgentSession
+    ) => Promise<Omit<G2aVerdictResult, "intent_id">> | Omit<G2aVerdictResult, "intent_id">;
+
+    /**
+     * Called for each execution report.
+     */
+    onReport?: (report: A2gReport["params"], session: A2gAgentSession) => void | Promise<void>;
+
+    /**
+     * Maximum age of handshake and intent signatures in milliseconds.
+     * @default 300000
+     */
+    maxSignatureAgeMs?: number;
+
+    /**
+     * Escalated intents remembered for `a2g/status` polls. Once full the
+     * oldest is forgotten; a resolved intent is forgotten as soon as a poll
+     * has returned its resolution.
+     * @default 10000
+     */
+    maxEscalations?: number;
+}
+
+/**
+ * How the mock engine answers an intent.
+ */
+export interface MockVerdictScript {
+    /** @default "APPROVED" */
+    verdict?: G2aVerdictResult["verdict"];
+
+    /** Overrides for the risk assessment (default: score 0, LOW, no threats) */
+    risk_assessment?: Partial<G2aVerdictResult["risk_assessment"]>;
+
+    capability_manifest?: G2aVerdictResult["capability_manifest"];
+
+    conditions?: string[];
+
+    /** Answer with a JSON-RPC error instead of a verdict */
+    error?: NonNullable<G2aVerdict["error"]>;
+
+    /** Wait before answering, in milliseconds */
+    delayMs?: number;
+
+    /** Close the connection abruptly instead of answering */
+    drop?: boolean;
+
+    /**
+     * Send an unparseable frame (or this raw string) instead of the verdict.
+     * In a batch the raw text becomes the member, e.g. "null".
+     */
+    malformed?: boolean | string;
+
+    /** Never answer (to exercise request timeouts) */
+    noResponse?: boolean;
+}
+
+/**
+ * Configuration options for the mock engine.
+ */
+export interface MockAeonEngineConfig {
+    /**
+     * Port to listen on (0 picks a free port).
+     * @default 0
+     */
+    port?: number;
+
+    /**
+     * Host to bind to.
+     * @default "127.0.0.1"
+     */
+    host?: string;
+
+    /**
+     * Answer for intents without a queued or per-tool script.
+     * @default { verdict: "APPROVED" }
+     */
+    defaultScript?: MockVerdictScript;
+}
+
+/**
+ * Options for `A2gClient.govern`.
+ */
+export interface GovernOptions {
+    /**
+     * Abort the tool after this many milliseconds and report TIMEOUT.
+     * The stricter of this and `capability_manifest.timeout_seconds` applies.
+     * The tool is told through `context.signal`; use runInWorker to stop it forcibly.
+     */
+    timeoutMs?: number;
+
+    /**
+     * Include the tool's return value in the SUCCESS report.
+     * @default true
+     */
+    reportResult?: boolean;
+
+    /**
+     * How long to wait for a human decision on ESCALATE before giving up
+     * with A2gEscalatedError.
+     * @default config.escalationTimeoutMs
+     */
+    escalationTimeoutMs?: number;
+
+    /**
+     * Argument names holding file paths (string or string[]), checked against
+     * `capability_manifest.filesystem_scope` before the tool runs.
+     * @default ["path", "paths", "file", "file_path", "filePath"]
+     */
+    pathArgs?: string[];
+}
+
+/**
+ * Passed to governed tools: the verdict and helpers that enforce its
+ * capability manifest.
+ */
+export interface A2gExecutionContext {
+    /** The approving verdict */
+    verdict: G2aVerdictResult;
+
+    /** The verdict's capability manifest (empty if none was sent) */
+    manifest: CapabilityManifest;
+
+    /** Aborted when the tool exceeds its time budget or the engine revokes the approval */
+    signal: AbortSignal;
+
+    /**
+     * Resolve a path and throw A2gCapabilityError if it is outside
+     * `filesystem_scope`. Returns the resolved absolute path.
+     */
+    assertPath(path: string): string;
+
+    /** Throw A2gCapabilityError if `network_allowed` is false */
+    assertNetwork(): void;
 }
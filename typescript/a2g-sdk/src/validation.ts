@@ -0,0 +1,317 @@
+import type {
+    A2gIntent,
+    A2gLocalPolicy,
+    A2gReport,
+    A2gSignatureContext,
+    CapabilityManifest,
+    G2aCapabilityRevokedParams,
+    G2aDisconnectParams,
+    G2aPolicyUpdateParams,
+    G2aResolutionParams,
+    G2aStatusResponse,
+    G2aVerdict,
+    G2aVerdictResult,
+} from "./types.js";
+import { A2G_ERROR_CODES } from "./protocol.js";
+import { A2gProtocolError } from "./errors.js";
+
+/**
+ * Outcome of validating an inbound message.
+ */
+export interface A2gValidationResult {
+    valid: boolean;
+    /** One entry per problem, e.g. "result.risk_assessment.score: expected a number" */
+    errors: string[];
+}
+
+type Check = (value: unknown, path: string, errors: string[]) => void;
+
+/**
+ * A check per property. Typing shapes against the interfaces makes the
+ * compiler flag validators that fall out of sync with types.ts.
+ */
+type Shape<T> = { [K in keyof Required<T>]: Check };
+
+const VERDICTS = ["APPROVED", "DENIED", "ESCALATE", "CONDITIONAL"] as const satisfies readonly G2aVerdictResult["verdict"][];
+const RISK_LEVELS = ["CRITICAL", "HIGH", "MEDIUM", "LOW"] as const satisfies readonly G2aVerdictResult["risk_assessment"]["level"][];
+const REPORT_STATUSES = ["SUCCESS", "FAILURE", "TIMEOUT", "ABORTED"] as const satisfies readonly A2gReport["params"]["status"][];
+const RESOLUTION_VERDICTS = ["APPROVED", "DENIED", "CONDITIONAL"] as const satisfies readonly G2aResolutionParams["verdict"][];
+const LOCAL_POLICY_DEFAULTS = ["APPROVED", "DENIED"] as const satisfies readonly NonNullable<A2gLocalPolicy["default"]>[];
+const ESCALATION_STATUSES = ["PENDING", "RESOLVED", "EXPIRED"] as const satisfies readonly NonNullable<G2aStatusResponse["result"]>["status"][];
+
+const fail = (errors: string[], path: string, expected: string) => {
+    errors.push(`${path || "message"}: expected ${expected}`);
+};
+
+const string: Check = (value, path, errors) => {
+    if (typeof value !== "string") fail(errors, path, "a string");
+};
+
+const nonEmptyString: Check = (value, path, errors) => {
+    if (typeof value !== "string" || value.length === 0) fail(errors, path, "a non-empty string");
+};
+
+const number: Check = (value, path, errors) => {
+    if (typeof value !== "number" || !Number.isFinite(value)) fail(errors, path, "a number");
+};
+
+const nonNegative: Check = (value, path, errors) => {
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) fail(errors, path, "a non-negative number");
+};
+
+const integer: Check = (value, path, errors) => {
+    if (!Number.isInteger(value)) fail(errors, path, "an integer");
+};
+
+const boolean: Check = (value, path, errors) => {
+    if (typeof value !== "boolean") fail(errors, path, "a boolean");
+};
+
+const anything: Check = () => {};
+
+const literal = (expected: string): Check => (value, path, errors) => {
+    if (value !== expected) fail(errors, path, JSON.stringify(expected));
+};
+
+const oneOf = (values: readonly string[]): Check => (value, path, errors) => {
+    if (typeof value !== "string" || !values.includes(value)) fail(errors, path, `one of ${values.join(", ")}`);
+};
+
+const optional = (check: Check): Check => (value, path, errors) => {
+    if (value !== undefined) check(value, path, errors);
+};
+
+const arrayOf = (check: Check): Check => (value, path, errors) => {
+    if (!Array.isArray(value)) {
+        fail(errors, path, "an array");
+        return;
+    }
+    value.forEach((item, i) => check(item, `${path}[${i}]`, errors));
+};
+
+const record: Check = (value, path, errors) => {
+    if (!isObject(value)) fail(errors, path, "an object");
+};
+
+// Extra properties are allowed so newer engines can add fields
+const object = <T>(shape: Shape<T>): Check => (value, path, errors) => {
+    if (!isObject(value)) {
+        fail(errors, path, "an object");
+        return;
+    }
+    for (const [key, check] of Object.entries(shape) as [string, Check][]) {
+        check(value[key], path ? `${path}.${key}` : key, errors);
+    }
+};
+
+const signatureContext = object<A2gSignatureContext>({
+    timestamp: string,
+    nonce: string,
+    hash: string,
+});
+
+const capabilityManifest = object<CapabilityManifest>({
+    max_memory_mb: optional(nonNegative),
+    max_cpu_percent: optional(nonNegative),
+    timeout_seconds: optional(nonNegative),
+    network_allowed: optional(boolean),
+    filesystem_scope: optional(arrayOf(string)),
+});
+
+const rpcError = object<NonNullable<G2aVerdict["error"]>>({
+    code: integer,
+    message: string,
+    data: anything,
+});
+
+const verdictResult = object<G2aVerdictResult>({
+    verdict: oneOf(VERDICTS),
+    intent_id: nonEmptyString,
+    risk_assessment: object<G2aVerdictResult["risk_assessment"]>({
+        score: number,
+        level: oneOf(RISK_LEVELS),
+        threats: arrayOf(string),
+    }),
+    capability_manifest: optional(capabilityManifest),
+    conditions: optional(arrayOf(string)),
+    decided_locally: optional(boolean),
+});
+
+const resolutionParams = object<G2aResolutionParams>({
+    intent_id: nonEmptyString,
+    verdict: oneOf(RESOLUTION_VERDICTS),
+    resolved_by: optional(string),
+    reason: optional(string),
+    capability_manifest: optional(capabilityManifest),
+    conditions: optional(arrayOf(string)),
+});
+
+const policyUpdateParams = object<G2aPolicyUpdateParams>({
+    policy_version: optional(string),
+    tools: optional(arrayOf(string)),
+    reason: optional(string),
+    local_policy: optional(object<A2gLocalPolicy>({
+        allow: optional(arrayOf(string)),
+        deny: optional(arrayOf(string)),
+        default: optional(oneOf(LOCAL_POLICY_DEFAULTS)),
+        capability_manifest: optional(capabilityManifest),
+    })),
+});
+
+const capabilityRevokedParams = object<G2aCapabilityRevokedParams>({
+    intent_id: optional(nonEmptyString),
+    tool: optional(nonEmptyString),
+    reason: optional(string),
+});
+
+const disconnectParams = object<G2aDisconnectParams>({
+    reason: optional(string),
+    reconnect: optional(boolean),
+});
+
+/**
+ * A JSON-RPC response carries exactly one of `result` and `error`.
+ */
+const response = (result: Check): Check => (value, path, errors) => {
+    object<{ jsonrpc: unknown; id: unknown }>({ jsonrpc: literal("2.0"), id: string })(value, path, errors);
+    if (!isObject(value)) return;
+
+    if ((value.result === undefined) === (value.error === undefined)) {
+        errors.push("message: expected exactly one of result and error");
+    } else if (value.result !== undefined) {
+        result(value.result, "result", errors);
+    } else {
+        rpcError(value.error, "error", errors);
+    }
+};
+
+const verdictMessage = response(verdictResult);
+
+const statusMessage = response(object<NonNullable<G2aStatusResponse["result"]>>({
+    intent_id: nonEmptyString,
+    status: oneOf(ESCALATION_STATUSES),
+    resolution: optional(resolutionParams),
+}));
+
+const intentMessage = object<A2gIntent>({
+    jsonrpc: literal("2.0"),
+    method: literal("a2g/intent"),
+    id: string,
+    params: object<A2gIntent["params"]>({
+        agent_did: nonEmptyString,
+        intent_id: nonEmptyString,
+        tool: nonEmptyString,
+        arguments: record,
+        context: optional(object<NonNullable<A2gIntent["params"]["context"]>>({
+            session_id: optional(string),
+            parent_intent: optional(string),
+            reasoning: optional(string),
+            traceparent: optional(string),
+            tracestate: optional(string),
+            signature: optional(signatureContext),
+        })),
+    }),
+});
+
+const reportMessage = object<A2gReport>({
+    jsonrpc: literal("2.0"),
+    method: literal("a2g/report"),
+    id: optional(string),
+    params: object<A2gReport["params"]>({
+        agent_did: nonEmptyString,
+        intent_id: nonEmptyString,
+        status: oneOf(REPORT_STATUSES),
+        result: anything,
+        error: optional(string),
+        metrics: optional(object<NonNullable<A2gReport["params"]["metrics"]>>({
+            duration_ms: nonNegative,
+        })),
+        decided_locally: optional(boolean),
+    }),
+});
+
+/**
+ * Validate a `G2aVerdict` (response to `a2g/intent`).
+ *
+ * @example
+ * ```typescript
+ * const check = validateVerdict(JSON.parse(frame));
+ * if (!check.valid) console.warn(check.errors.join("; "));
+ * ```
+ */
+export function validateVerdict(value: unknown): A2gValidationResult {
+    return run(verdictMessage, value);
+}
+
+/**
+ * Validate a `G2aStatusResponse` (response to `a2g/status`).
+ */
+export function validateStatusResponse(value: unknown): A2gValidationResult {
+    return run(statusMessage, value);
+}
+
+/**
+ * Validate `G2aResolutionParams` (body of a `g2a/resolution` push).
+ */
+export function validateResolution(value: unknown): A2gValidationResult {
+    return run(resolutionParams, value);
+}
+
+/**
+ * Validate `G2aPolicyUpdateParams` (body of a `g2a/policy_update` push).
+ */
+export function validatePolicyUpdate(value: unknown): A2gValidationResult {
+    return run(policyUpdateParams, value);
+}
+
+/**
+ * Validate `G2aCapabilityRevokedParams` (body of a `g2a/capability_revoked` push).
+ */
+export function validateCapabilityRevoked(value: unknown): A2gValidationResult {
+    return run(capabilityRevokedParams, value);
+}
+
+/**
+ * Validate `G2aDisconnectParams` (body of a `g2a/disconnect` push).
+ */
+export function validateDisconnect(value: unknown): A2gValidationResult {
+    return run(disconnectParams, value);
+}
+
+/**
+ * Validate an `A2gIntent` (for engine implementations).
+ */
+export function validateIntent(value: unknown): A2gValidationResult {
+    return run(intentMessage, value);
+}
+
+/**
+ * Validate an `A2gReport` (for engine implementations).
+ */
+export function validateReport(value: unknown): A2gValidationResult {
+    return run(reportMessage, value);
+}
+
+/**
+ * Throw A2gProtocolError (INVALID_REQUEST, with the problems as `data`)
+ * unless the validation passed.
+ */
+export function assertValid(result: A2gValidationResult, what: string): void {
+    if (!result.valid) {
+        throw new A2gProtocolError(
+            A2G_ERROR_CODES.INVALID_REQUEST,
+            `Invalid ${what}: ${result.errors.join("; ")}`,
+            { errors: result.errors }
+        );
+    }
+}
+
+function run(check: Check, value: unknown): A2gValidationResult {
+    const errors: string[] = [];
+    check(value, "", errors);
+    return { valid: errors.length === 0, errors };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
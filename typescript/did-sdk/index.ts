@@ -1,7 +1,7 @@
 /**
  * @aeon/did-sdk
  * 
- * DID identity and HMAC-SHA256 signing for AEON agents.
+ * DID identity and HMAC-SHA256 / Ed25519 signing for AEON agents.
  * 
  * @example
  * ```typescript
@@ -17,6 +17,13 @@
  * // Or use Signer directly
  * const sig = Signer.sign(key, "message");
  * const valid = Signer.verify(key, sig, "message");
+ * 
+ * // Ed25519: verifiers only ever see the public key
+ * const agent = AeonDID.create("my-agent", { keyType: "ed25519" });
+ * Signer.verify(agent.publicKey!, agent.sign("message"), "message", { keyType: "ed25519" });
+ * 
+ * // Resolve a counterparty's public DID Document
+ * const doc = await AeonDID.resolve("did:aeon:partner-agent");
  * ```
  * 
  * @packageDocumentation
@@ -24,10 +31,28 @@
 
 export { AeonDID } from "./src/did.js";
 export { Signer } from "./src/signer.js";
+export { MemoryNonceStore } from "./src/nonce.js";
+export { canonicalize } from "./src/canonical.js";
+export { FileStorage, MemoryStorage, EnvStorage } from "./src/storage.js";
+export type { EnvStorageOptions } from "./src/storage.js";
+export { DIDResolver, StorageSource, MemoryRegistry, HttpSource } from "./src/resolver.js";
 export type {
     AeonDIDDocument,
     Signature,
+    KeyType,
+    KeyPair,
+    KeyRecord,
+    RevocationRecord,
     CreateDIDOptions,
+    RotateKeyOptions,
     SignOptions,
+    VerifyOptions,
+    VerificationStatus,
+    VerificationResult,
+    NonceStore,
+    StorageOptions,
     DIDStorage,
+    DIDDocument,
+    VerificationMethod,
+    DIDSource,
 } from "./src/types.js";
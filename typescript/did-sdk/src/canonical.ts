@@ -0,0 +1,96 @@
+/**
+ * @aeon/did-sdk - Canonical JSON
+ * 
+ * RFC 8785 JSON Canonicalization Scheme (JCS) used for all signed payloads.
+ * See spec/canonical-json.md at the repository root for the cross-language rules.
+ */
+
+/**
+ * Serialize a value to canonical JSON (RFC 8785)
+ * 
+ * - Object keys are sorted by UTF-16 code units, no whitespace is emitted
+ * - Numbers use the ECMAScript shortest round-trip form (1.0 → "1", 1e21 → "1e+21")
+ * - Strings escape only `"`, `\` and control characters; other unicode is literal
+ * - Object members whose value is `undefined` are omitted
+ * - Values with `toJSON` (e.g. `Date`) are replaced by its result
+ * 
+ * @param value - JSON-compatible value
+ * @returns Canonical JSON string
+ * @throws TypeError for values JSON cannot represent unambiguously:
+ *   NaN/Infinity, BigInt, functions, symbols, `undefined` outside object
+ *   members, Map/Set and other non-plain objects, and circular references
+ * 
+ * @example
+ * ```typescript
+ * canonicalize({ b: 1, a: [true, null, "€"], c: undefined });
+ * // → '{"a":[true,null,"€"],"b":1}'
+ * ```
+ */
+export function canonicalize(value: unknown): string {
+    return serialize(value, new Set<object>(), "$");
+}
+
+function serialize(value: unknown, ancestors: Set<object>, path: string): string {
+    if (value === null) {
+        return "null";
+    }
+
+    switch (typeof value) {
+        case "boolean":
+            return value ? "true" : "false";
+        case "number":
+            if (!Number.isFinite(value)) {
+                throw new TypeError(`Cannot canonicalize non-finite number at ${path}`);
+            }
+            // ECMAScript Number serialization is exactly the JCS number format
+            return JSON.stringify(value);
+        case "string":
+            return JSON.stringify(value);
+        case "object":
+            break;
+        default:
+            throw new TypeError(`Cannot canonicalize ${typeof value} at ${path}`);
+    }
+
+    const obj = value as object;
+
+    if (typeof (obj as { toJSON?: unknown }).toJSON === "function") {
+        return serialize((obj as { toJSON: () => unknown }).toJSON(), ancestors, path);
+    }
+
+    if (ancestors.has(obj)) {
+        throw new TypeError(`Cannot canonicalize circular reference at ${path}`);
+    }
+    ancestors.add(obj);
+
+    try {
+        if (Array.isArray(obj)) {
+            const items = obj.map((item, i) => {
+                if (item === undefined) {
+                    throw new TypeError(`Cannot canonicalize undefined at ${path}[${i}]`);
+                }
+                return serialize(item, ancestors, `${path}[${i}]`);
+            });
+            return `[${items.join(",")}]`;
+        }
+
+        const proto = Object.getPrototypeOf(obj);
+        if (proto !== Object.prototype && proto !== null) {
+            const name = proto?.constructor?.name || "object";
+            throw new TypeError(`Cannot canonicalize ${name} at ${path}; convert it to a plain object first`);
+        }
+
+        const record = obj as Record<string, unknown>;
+        const members: string[] = [];
+        // Default sort compares UTF-16 code units, as RFC 8785 requires
+        for (const key of Object.keys(record).sort()) {
+            if (record[key] === undefined) {
+                continue;
+            }
+            members.push(`${JSON.stringify(key)}:${serialize(record[key], ancestors, `${path}.${key}`)}`);
+        }
+        return `{${members.join(",")}}`;
+    } finally {
+        ancestors.delete(obj);
+    }
+}
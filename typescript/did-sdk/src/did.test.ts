@@ -0,0 +1,156 @@
+/**
+ * AeonDID key lifecycle: rotation, revocation and validity windows.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AeonDID } from "./did.js";
+import { DIDResolver } from "./resolver.js";
+import { Signer } from "./signer.js";
+
+// Each test verifies its own fresh signatures; keep the global nonce store out of it
+const VERIFY = { nonceStore: false } as const;
+
+/** Busy-wait until the clock moves on, so two events get distinct timestamps */
+function nextMillisecond(): void {
+    const now = Date.now();
+    while (Date.now() === now) { /* spin */ }
+}
+
+describe("AeonDID key rotation", () => {
+    it("retires the current key with its validity window", () => {
+        const did = AeonDID.create("rotating", { keyType: "ed25519" });
+        const oldPublicKey = did.publicKey;
+
+        assert.equal(did.rotateKey(), "key-2");
+
+        const [retired] = did.keyHistory;
+        assert.equal(did.keyId, "key-2");
+        assert.equal(retired.keyId, "key-1");
+        assert.equal(retired.publicKey, oldPublicKey);
+        assert.equal(retired.validFrom.getTime(), did.createdAt.getTime());
+        assert.equal(retired.validUntil.getTime(), did.doc.keyValidFrom?.getTime());
+        assert.notEqual(did.publicKey, oldPublicKey);
+    });
+
+    it("drops the seed of a retired Ed25519 key but keeps a retired HMAC key", () => {
+        const ed25519 = AeonDID.create("rotating-ed", { keyType: "ed25519" });
+        const hmac = AeonDID.create("rotating-hmac");
+        const hmacKey = hmac.signingKey;
+
+        ed25519.rotateKey();
+        hmac.rotateKey();
+
+        assert.equal(ed25519.keyHistory[0].signingKey, "");
+        assert.equal(hmac.keyHistory[0].signingKey, hmacKey);
+    });
+
+    it("verifies signatures made before a rotation with the retired key", () => {
+        for (const keyType of ["ed25519", "hmac-sha256"] as const) {
+            const did = AeonDID.create("rotating", { keyType });
+            const signature = did.sign("hello");
+            nextMillisecond();
+
+            did.rotateKey();
+
+            assert.equal(did.verifyDetailed(signature, "hello", VERIFY).status, "ok", keyType);
+            assert.equal(did.verifyDetailed(did.sign("hello"), "hello", VERIFY).status, "ok", keyType);
+        }
+    });
+
+    it("accepts either key for a signature timestamped in the rotation millisecond", () => {
+        const did = AeonDID.create("boundary", { keyType: "ed25519" });
+        const oldSeed = did.signingKey;
+        did.rotateKey();
+        const rotatedAt = did.keyHistory[0].validUntil.getTime().toString();
+
+        const byOldKey = Signer.sign(oldSeed, "hello", { keyType: "ed25519", timestamp: rotatedAt });
+        const byNewKey = Signer.sign(did.signingKey, "hello", { keyType: "ed25519", timestamp: rotatedAt });
+        const byStranger = Signer.sign(Signer.generateKeyPair().privateKey, "hello", {
+            keyType: "ed25519",
+            timestamp: rotatedAt,
+        });
+
+        assert.equal(did.verifyDetailed(byOldKey, "hello", VERIFY).status, "ok");
+        assert.equal(did.verifyDetailed(byNewKey, "hello", VERIFY).status, "ok");
+        assert.equal(did.verifyDetailed(byStranger, "hello", VERIFY).status, "bad-hash");
+    });
+});
+
+describe("AeonDID keyAt", () => {
+    it("finds the key valid at a point in time", () => {
+        const did = AeonDID.create("windows", { keyType: "ed25519" });
+        nextMillisecond();
+        did.rotateKey();
+        const rotatedAt = did.keyHistory[0].validUntil.getTime();
+
+        assert.equal(did.keyAt(did.createdAt.getTime() - 1), null);
+        assert.equal(did.keyAt(rotatedAt - 1)?.keyId, "key-1");
+        assert.equal(did.keyAt(rotatedAt)?.keyId, "key-2");
+        assert.equal(did.keyAt(Number.NaN), null);
+    });
+
+    it("returns null once the key is revoked", () => {
+        const did = AeonDID.create("revoked-window");
+        nextMillisecond();
+        const record = did.revokeKey("key-1", "compromised");
+
+        assert.equal(did.keyAt(record.revokedAt.getTime() - 1)?.keyId, "key-1");
+        assert.equal(did.keyAt(record.revokedAt.getTime()), null);
+    });
+});
+
+describe("AeonDID revokeKey", () => {
+    it("rejects signatures from the revocation on and stops signing", () => {
+        const did = AeonDID.create("revoking");
+        const record = did.revokeKey();
+
+        const after = Signer.sign(did.signingKey, "hello", { timestamp: record.revokedAt.getTime().toString() });
+
+        assert.equal(did.verifyDetailed(after, "hello", VERIFY).status, "revoked");
+        assert.throws(() => did.sign("hello"), /revoked/);
+    });
+
+    it("records each revocation once and rejects unknown keys", () => {
+        const did = AeonDID.create("revoking-twice");
+
+        const first = did.revokeKey("key-1", "compromised");
+        const second = did.revokeKey("key-1");
+
+        assert.equal(second, first);
+        assert.equal(did.revocations.length, 1);
+        assert.throws(() => did.revokeKey("key-9"), /Unknown key/);
+    });
+});
+
+describe("AeonDID toDIDDocument", () => {
+    it("publishes retired keys with their windows and revocations", () => {
+        const did = AeonDID.create("published", { keyType: "ed25519" });
+        const signature = did.sign("hello");
+        const signedAt = parseInt(signature.timestamp, 10);
+        nextMillisecond();
+        did.rotateKey();
+        did.revokeKey("key-1");
+
+        const doc = did.toDIDDocument();
+        const [current, retired] = doc.verificationMethod;
+
+        assert.deepEqual(doc.authentication, [current.id]);
+        assert.equal(current.validUntil, undefined);
+        assert.equal(retired.id, `${did.did}#key-1`);
+        assert.equal(retired.validUntil, did.keyHistory[0].validUntil.toISOString());
+        assert.equal(retired.revoked, did.revocations[0].revokedAt.toISOString());
+        assert.equal(DIDResolver.getPublicKeyAt(doc, signedAt), did.keyHistory[0].publicKey);
+        assert.equal(DIDResolver.getPublicKey(doc), did.publicKey);
+    });
+
+    it("leaves a revoked current key out of authentication", () => {
+        const did = AeonDID.create("no-auth", { keyType: "ed25519" });
+        did.revokeKey();
+
+        const doc = did.toDIDDocument();
+
+        assert.deepEqual(doc.authentication, []);
+        assert.equal(DIDResolver.getPublicKey(doc), null);
+    });
+});
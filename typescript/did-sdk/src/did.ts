@@ -4,11 +4,24 @@
  * Create and manage AEON Decentralized Identifiers.
  */
 
-import { promises as fs } from "fs";
-import { homedir } from "os";
-import { join } from "path";
-import type { AeonDIDDocument, CreateDIDOptions, DIDStorage } from "./types.js";
+import type {
+    AeonDIDDocument,
+    CreateDIDOptions,
+    DIDDocument,
+    DIDStorage,
+    KeyRecord,
+    KeyType,
+    RevocationRecord,
+    RotateKeyOptions,
+    Signature,
+    StorageOptions,
+    VerificationMethod,
+    VerificationResult,
+    VerifyOptions,
+} from "./types.js";
 import { Signer } from "./signer.js";
+import { DIDResolver } from "./resolver.js";
+import { FileStorage } from "./storage.js";
 
 /**
  * AEON DID - Decentralized Identifier for Agents
@@ -24,8 +37,13 @@ import { Signer } from "./signer.js";
  * ```
  */
 export class AeonDID {
+    private static defaultStorage: DIDStorage | null = null;
+
     private document: AeonDIDDocument;
 
+    /** Storage this DID was loaded from (with its passphrase), reused by save() */
+    private storage?: DIDStorage;
+
     private constructor(document: AeonDIDDocument) {
         this.document = document;
     }
@@ -49,11 +67,36 @@ export class AeonDID {
         return this.document.signingKey;
     }
 
+    /** The signing algorithm */
+    get keyType(): KeyType {
+        return this.document.keyType || "hmac-sha256";
+    }
+
+    /** The Ed25519 public key (undefined for HMAC DIDs) */
+    get publicKey(): string | undefined {
+        return this.document.publicKey;
+    }
+
     /** When the DID was created */
     get createdAt(): Date {
         return this.document.createdAt;
     }
 
+    /** Identifier of the current key (e.g., "key-2") */
+    get keyId(): string {
+        return this.document.keyId || "key-1";
+    }
+
+    /** Previous keys with their validity windows */
+    get keyHistory(): KeyRecord[] {
+        return [...(this.document.keyHistory || [])];
+    }
+
+    /** Revoked keys */
+    get revocations(): RevocationRecord[] {
+        return [...(this.document.revocations || [])];
+    }
+
     /** The full DID document */
     get doc(): AeonDIDDocument {
         return { ...this.document };
@@ -74,6 +117,9 @@ export class AeonDID {
      * ```typescript
      * const did = AeonDID.create("my-agent");
      * // → did:aeon:my-agent
+     * 
+     * // Asymmetric keys: verifiers only need did.publicKey
+     * const did = AeonDID.create("my-agent", { keyType: "ed25519" });
      * ```
      */
     static create(name: string, options?: CreateDIDOptions): AeonDID {
@@ -85,12 +131,15 @@ export class AeonDID {
             );
         }
 
-        const signingKey = options?.signingKey || Signer.generateKey();
+        const keyType = options?.keyType || "hmac-sha256";
+        const { signingKey, publicKey } = AeonDID.generateKeyMaterial(keyType, options?.signingKey);
 
         const document: AeonDIDDocument = {
             did: `did:aeon:${name}`,
             name,
             signingKey,
+            keyType,
+            publicKey,
             createdAt: new Date(),
             metadata: options?.metadata,
         };
@@ -98,6 +147,28 @@ export class AeonDID {
         return new AeonDID(document);
     }
 
+    /**
+     * Generate (or validate a supplied) signing key for an algorithm
+     */
+    private static generateKeyMaterial(
+        keyType: KeyType,
+        customKey?: string
+    ): { signingKey: string; publicKey?: string } {
+        if (keyType !== "ed25519") {
+            return { signingKey: customKey || Signer.generateKey() };
+        }
+
+        if (customKey) {
+            if (!Signer.isValidKey(customKey, keyType)) {
+                throw new Error("Invalid Ed25519 signing key. Expected a hex-encoded 32-byte seed.");
+            }
+            return { signingKey: customKey, publicKey: Signer.derivePublicKey(customKey) };
+        }
+
+        const keyPair = Signer.generateKeyPair();
+        return { signingKey: keyPair.privateKey, publicKey: keyPair.publicKey };
+    }
+
     /**
      * Create an AeonDID from an existing document
      * 
@@ -122,141 +193,436 @@ export class AeonDID {
         return match[1];
     }
 
+    /**
+     * Resolve a DID to its public W3C DID Document
+     * 
+     * @param did - DID string (e.g., "did:aeon:my-agent")
+     * @param resolver - Resolver to use (default: local DID storage)
+     * @returns DID Document or null if not found
+     * 
+     * @example
+     * ```typescript
+     * const doc = await AeonDID.resolve("did:aeon:partner-agent");
+     * const key = doc?.verificationMethod[0]?.publicKeyJwk;
+     * ```
+     */
+    static async resolve(did: string, resolver?: DIDResolver): Promise<DIDDocument | null> {
+        return (resolver || new DIDResolver()).resolve(did);
+    }
+
+    // =========================================================================
+    // Export
+    // =========================================================================
+
+    /**
+     * Export the public W3C DID Document (no secret material)
+     * 
+     * Ed25519 DIDs publish their public key as a JsonWebKey2020 verification
+     * method. HMAC keys are shared secrets, so HMAC DIDs have no verification
+     * methods.
+     */
+    toDIDDocument(): DIDDocument {
+        const doc: DIDDocument = {
+            "@context": [
+                "https://www.w3.org/ns/did/v1",
+                "https://w3id.org/security/suites/jws-2020/v1",
+            ],
+            id: this.did,
+            controller: this.did,
+            verificationMethod: [],
+            authentication: [],
+            created: this.createdAt.toISOString(),
+        };
+
+        // Retired keys stay listed with their windows so old signatures remain verifiable
+        const current = this.currentKey();
+        for (const key of [current, ...this.keyHistory]) {
+            if (key.keyType !== "ed25519" || !key.publicKey) {
+                continue;
+            }
+
+            const method: VerificationMethod = {
+                id: `${this.did}#${key.keyId}`,
+                type: "JsonWebKey2020",
+                controller: this.did,
+                publicKeyJwk: {
+                    kty: "OKP",
+                    crv: "Ed25519",
+                    x: Buffer.from(key.publicKey, "hex").toString("base64url"),
+                },
+                validFrom: key.validFrom.toISOString(),
+            };
+            if (key !== current) {
+                method.validUntil = key.validUntil.toISOString();
+            }
+            const revocation = this.revocations.find(r => r.keyId === key.keyId);
+            if (revocation) {
+                method.revoked = revocation.revokedAt.toISOString();
+            }
+            doc.verificationMethod.push(method);
+
+            if (key === current && !this.isRevoked(key.keyId, Date.now())) {
+                doc.authentication.push(method.id);
+            }
+        }
+
+        return doc;
+    }
+
     // =========================================================================
     // Signing Methods
     // =========================================================================
 
     /**
-     * Sign a message with this DID's signing key
+     * Sign a message with this DID's current signing key
      * 
      * @param message - Message to sign
      * @returns Signature object
+     * @throws If the current key has been revoked
      */
     sign(message: string | object) {
-        return Signer.sign(this.signingKey, message);
+        if (this.isRevoked(this.keyId, Date.now())) {
+            throw new Error(`Key ${this.keyId} of ${this.did} is revoked; rotate the key before signing`);
+        }
+        return Signer.sign(this.signingKey, message, { keyType: this.keyType });
     }
 
     /**
-     * Verify a signature against this DID's signing key
+     * Verify a signature against the key that was valid when it was made
+     * (the public key for Ed25519 keys, the signing key for HMAC keys)
+     * 
+     * Signatures are rejected if no key was valid at `signature.timestamp`
+     * or if that key was revoked at or before it.
      * 
      * @param signature - Signature to verify
      * @param message - Original message
+     * @param options - Verify options (maximum age, clock skew, nonce store)
      * @returns True if valid
      */
-    verify(signature: Parameters<typeof Signer.verify>[1], message: string | object) {
-        return Signer.verify(this.signingKey, signature, message);
+    verify(
+        signature: Signature,
+        message: string | object,
+        options: Omit<VerifyOptions, "keyType"> = {}
+    ): boolean {
+        return this.verifyDetailed(signature, message, options).ok;
+    }
+
+    /**
+     * Verify a signature and report why it was rejected
+     * 
+     * @param signature - Signature to verify
+     * @param message - Original message
+     * @param options - Verify options (maximum age, clock skew, nonce store)
+     * @returns Verification result with status and age metadata
+     */
+    verifyDetailed(
+        signature: Signature,
+        message: string | object,
+        options: Omit<VerifyOptions, "keyType"> = {}
+    ): VerificationResult {
+        const signedAt = parseInt(signature?.timestamp, 10);
+        if (Number.isNaN(signedAt)) {
+            return Signer.verifyDetailed(this.signingKey, signature, message, { ...options, keyType: this.keyType });
+        }
+
+        const key = this.keyAt(signedAt);
+        if (!key) {
+            const everValid = this.findKey(signedAt);
+            return everValid
+                ? {
+                    ok: false,
+                    status: "revoked",
+                    reason: `Key ${everValid.keyId} of ${this.did} was revoked`,
+                    signedAt,
+                    ageMs: Date.now() - signedAt,
+                }
+                : {
+                    ok: false,
+                    status: "unknown-key",
+                    reason: `${this.did} had no valid key at ${new Date(signedAt).toISOString()}`,
+                    signedAt,
+                    ageMs: Date.now() - signedAt,
+                };
+        }
+
+        const result = AeonDID.verifyWithKey(key, signature, message, options);
+        if (result.status !== "bad-hash") {
+            return result;
+        }
+
+        // The rotation millisecond belongs to both keys: a signature made with
+        // the old key just before rotateKey() can carry the new key's validFrom
+        const retired = this.keyHistory.find(k =>
+            k.validUntil.getTime() === signedAt && !this.isRevoked(k.keyId, signedAt)
+        );
+        return retired ? AeonDID.verifyWithKey(retired, signature, message, options) : result;
+    }
+
+    /**
+     * Verify with a key record: Ed25519 by its public key, HMAC by the shared key
+     */
+    private static verifyWithKey(
+        key: KeyRecord,
+        signature: Signature,
+        message: string | object,
+        options: Omit<VerifyOptions, "keyType">
+    ): VerificationResult {
+        const verificationKey = key.keyType === "ed25519" ? key.publicKey! : key.signingKey;
+        return Signer.verifyDetailed(verificationKey, signature, message, { ...options, keyType: key.keyType });
     }
 
     // =========================================================================
-    // Storage
+    // Key Lifecycle
     // =========================================================================
 
     /**
-     * Save this DID to the default storage location
-     * (~/.aeon/dids/{name}.json)
+     * Replace the signing key, keeping the old one in the key history
+     * 
+     * The DID itself does not change, so agents stay registered. Signatures
+     * made with the old key remain verifiable for the time they were valid;
+     * one timestamped in the rotation millisecond itself is accepted from
+     * either key. A retired Ed25519 key keeps only its public key; HMAC keys are shared
+     * secrets, so they are kept to verify old signatures.
+     * Save the DID afterwards to persist the rotation.
+     * 
+     * @param options - Algorithm or custom key for the new key
+     * @returns Identifier of the new key
+     * 
+     * @example
+     * ```typescript
+     * const storage = new FileStorage("/etc/aeon/dids");
+     * const did = await AeonDID.load("my-agent", { storage, passphrase });
+     * did.rotateKey(); // → "key-2"
+     * await did.save({ storage, passphrase });
+     * ```
      */
-    async save(): Promise<void> {
-        const storage = new FileStorage();
-        await storage.save(this.document);
+    rotateKey(options?: RotateKeyOptions): string {
+        const now = new Date();
+        const keyType = options?.keyType || this.keyType;
+        const { signingKey, publicKey } = AeonDID.generateKeyMaterial(keyType, options?.signingKey);
+
+        const retired: KeyRecord = {
+            ...this.currentKey(),
+            signingKey: this.keyType === "ed25519" ? "" : this.signingKey,
+            validUntil: now,
+        };
+
+        const keyNumber = parseInt(this.keyId.replace(/^key-/, ""), 10);
+        const nextKeyId = `key-${(Number.isNaN(keyNumber) ? this.keyHistory.length + 1 : keyNumber) + 1}`;
+
+        this.document = {
+            ...this.document,
+            signingKey,
+            keyType,
+            publicKey,
+            keyId: nextKeyId,
+            keyValidFrom: now,
+            keyHistory: [...this.keyHistory, retired],
+        };
+
+        return nextKeyId;
     }
 
     /**
-     * Load a DID from the default storage location
+     * Revoke a key; signatures timestamped from now on are rejected
      * 
-     * @param name - Name of the DID to load
-     * @returns AeonDID instance or null if not found
+     * Revoking the current key stops this DID from signing until the key
+     * is rotated. Save the DID afterwards to persist the revocation.
+     * 
+     * @param keyId - Key to revoke (default: the current key)
+     * @param reason - Optional reason (e.g., "compromised")
+     * @returns The revocation record
      */
-    static async load(name: string): Promise<AeonDID | null> {
-        const storage = new FileStorage();
-        const doc = await storage.load(name);
-        return doc ? new AeonDID(doc) : null;
+    revokeKey(keyId: string = this.keyId, reason?: string): RevocationRecord {
+        const known = keyId === this.keyId || this.keyHistory.some(k => k.keyId === keyId);
+        if (!known) {
+            throw new Error(`Unknown key ${keyId} for ${this.did}`);
+        }
+
+        const existing = this.revocations.find(r => r.keyId === keyId);
+        if (existing) {
+            return existing;
+        }
+
+        const record: RevocationRecord = { keyId, revokedAt: new Date(), reason };
+        this.document = {
+            ...this.document,
+            revocations: [...this.revocations, record],
+        };
+
+        return record;
     }
 
     /**
-     * List all stored DIDs
+     * Find the key that was valid at a point in time
+     * 
+     * @param timestamp - Unix time in milliseconds
+     * @returns The key record, or null if none was valid (or it was revoked)
      */
-    static async list(): Promise<AeonDID[]> {
-        const storage = new FileStorage();
-        const docs = await storage.list();
-        return docs.map(doc => new AeonDID(doc));
+    keyAt(timestamp: number): KeyRecord | null {
+        if (Number.isNaN(timestamp)) {
+            return null;
+        }
+
+        const key = this.findKey(timestamp);
+        if (!key || this.isRevoked(key.keyId, timestamp)) {
+            return null;
+        }
+        return key;
     }
 
     /**
-     * Delete a stored DID
-     * 
-     * @param name - Name of the DID to delete
-     * @returns True if deleted
+     * Find the key whose validity window contains a point in time, ignoring revocations
      */
-    static async delete(name: string): Promise<boolean> {
-        const storage = new FileStorage();
-        return storage.delete(name);
+    private findKey(timestamp: number): KeyRecord | undefined {
+        return [this.currentKey(), ...this.keyHistory].find(k =>
+            timestamp >= k.validFrom.getTime() && timestamp < k.validUntil.getTime()
+        );
     }
-}
 
-/**
- * File-based DID storage
- * Stores DIDs in ~/.aeon/dids/
- */
-class FileStorage implements DIDStorage {
-    private basePath: string;
+    /**
+     * The current key as an open-ended key record
+     */
+    private currentKey(): KeyRecord {
+        return {
+            keyId: this.keyId,
+            keyType: this.keyType,
+            signingKey: this.signingKey,
+            publicKey: this.publicKey,
+            validFrom: this.document.keyValidFrom || this.createdAt,
+            validUntil: new Date(8.64e15), // Max Date
+        };
+    }
 
-    constructor(basePath?: string) {
-        this.basePath = basePath || join(homedir(), ".aeon", "dids");
+    private isRevoked(keyId: string, timestamp: number): boolean {
+        return this.revocations.some(r => r.keyId === keyId && timestamp >= r.revokedAt.getTime());
     }
 
-    private async ensureDir(): Promise<void> {
-        await fs.mkdir(this.basePath, { recursive: true });
+    // =========================================================================
+    // Storage
+    // =========================================================================
+
+    /**
+     * Set the storage used when no storage is passed per call
+     * 
+     * @param storage - Storage backend, or null to restore ~/.aeon/dids/
+     * 
+     * @example
+     * ```typescript
+     * // Kubernetes: identities mounted as secrets
+     * AeonDID.setDefaultStorage(new EnvStorage({ secretsDir: "/var/run/secrets/aeon" }));
+     * 
+     * // Tests
+     * AeonDID.setDefaultStorage(new MemoryStorage());
+     * ```
+     */
+    static setDefaultStorage(storage: DIDStorage | null): void {
+        AeonDID.defaultStorage = storage;
     }
 
-    private getPath(name: string): string {
-        return join(this.basePath, `${name}.json`);
+    /**
+     * The storage used when no storage is passed per call
+     */
+    static getDefaultStorage(): DIDStorage {
+        return AeonDID.resolveStorage();
     }
 
-    async save(doc: AeonDIDDocument): Promise<void> {
-        await this.ensureDir();
-        const path = this.getPath(doc.name);
-        await fs.writeFile(path, JSON.stringify(doc, null, 2), "utf-8");
+    /**
+     * Save this DID
+     * (default: where it was loaded from, with the same passphrase; else
+     * ~/.aeon/dids/{name}.json, readable only by the current user)
+     * 
+     * @param options - Storage backend and/or passphrase to store the DID encrypted
+     * @throws If the stored copy is encrypted and no passphrase is given
+     * 
+     * @example
+     * ```typescript
+     * await did.save({ passphrase: process.env.AEON_PASSPHRASE });
+     * await did.save({ storage: new FileStorage("/etc/aeon/dids") });
+     * ```
+     */
+    async save(options?: StorageOptions): Promise<void> {
+        const storage = options || !this.storage ? AeonDID.resolveStorage(options) : this.storage;
+        await storage.save(this.document);
+        this.storage = storage;
     }
 
-    async load(name: string): Promise<AeonDIDDocument | null> {
-        try {
-            const path = this.getPath(name);
-            const content = await fs.readFile(path, "utf-8");
-            const doc = JSON.parse(content);
-            doc.createdAt = new Date(doc.createdAt);
-            return doc;
-        } catch {
+    /**
+     * Load a stored DID
+     * 
+     * @param name - Name of the DID to load
+     * @param options - Storage backend and/or passphrase for encrypted DIDs
+     * @returns AeonDID instance or null if not found
+     * @throws If the DID is encrypted and the passphrase is missing or wrong
+     */
+    static async load(name: string, options?: StorageOptions): Promise<AeonDID | null> {
+        const storage = AeonDID.resolveStorage(options);
+        const doc = await storage.load(name);
+        if (!doc) {
             return null;
         }
+
+        const did = new AeonDID(doc);
+        did.storage = storage;
+        return did;
     }
 
-    async list(): Promise<AeonDIDDocument[]> {
-        try {
-            await this.ensureDir();
-            const files = await fs.readdir(this.basePath);
-            const docs: AeonDIDDocument[] = [];
+    /**
+     * List all stored DIDs
+     * (encrypted DIDs are skipped unless the passphrase opens them)
+     */
+    static async list(options?: StorageOptions): Promise<AeonDID[]> {
+        const storage = AeonDID.resolveStorage(options);
+        const docs = await storage.list();
+        return docs.map(doc => new AeonDID(doc));
+    }
 
-            for (const file of files) {
-                if (file.endsWith(".json")) {
-                    const name = file.replace(".json", "");
-                    const doc = await this.load(name);
-                    if (doc) docs.push(doc);
-                }
-            }
+    /**
+     * Delete a stored DID
+     * 
+     * @param name - Name of the DID to delete
+     * @param options - Storage backend
+     * @returns True if deleted
+     */
+    static async delete(name: string, options?: StorageOptions): Promise<boolean> {
+        const storage = AeonDID.resolveStorage(options);
+        return storage.delete(name);
+    }
 
-            return docs;
-        } catch {
-            return [];
+    /**
+     * Encrypt existing plaintext DIDs in file storage
+     * 
+     * @param options - Passphrase to encrypt with (and optionally a FileStorage)
+     * @returns Names of the migrated DIDs
+     * 
+     * @example
+     * ```typescript
+     * const migrated = await AeonDID.migrate({ passphrase });
+     * ```
+     */
+    static async migrate(options: StorageOptions & { passphrase: string }): Promise<string[]> {
+        const storage = AeonDID.resolveStorage(options);
+        if (!(storage instanceof FileStorage)) {
+            throw new Error("Migration to encrypted storage is only supported by FileStorage");
         }
+        return storage.migrate();
     }
 
-    async delete(name: string): Promise<boolean> {
-        try {
-            const path = this.getPath(name);
-            await fs.unlink(path);
-            return true;
-        } catch {
-            return false;
+    /**
+     * Pick the storage for a call: explicit > global default > ~/.aeon/dids/
+     */
+    private static resolveStorage(options?: StorageOptions): DIDStorage {
+        const storage = options?.storage || AeonDID.defaultStorage;
+
+        if (!storage) {
+            return new FileStorage(undefined, { passphrase: options?.passphrase });
+        }
+        if (!options?.passphrase) {
+            return storage;
+        }
+        if (storage instanceof FileStorage) {
+            return storage.withPassphrase(options.passphrase);
         }
+        throw new Error("The passphrase option is only supported by FileStorage; configure it on the storage instead");
     }
 }
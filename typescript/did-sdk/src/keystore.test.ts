@@ -0,0 +1,99 @@
+/**
+ * Encrypted keystore and FileStorage.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AeonDID } from "./did.js";
+import { decryptDocument, encryptDocument, isEncryptedKeystore } from "./keystore.js";
+import { FileStorage } from "./storage.js";
+
+const PASSPHRASE = "correct horse battery staple";
+
+async function tempDir(): Promise<string> {
+    return fs.mkdtemp(join(tmpdir(), "aeon-dids-"));
+}
+
+async function readJson(path: string): Promise<Record<string, unknown>> {
+    return JSON.parse(await fs.readFile(path, "utf-8"));
+}
+
+describe("encrypted keystore", () => {
+    it("round-trips a DID document", async () => {
+        const did = AeonDID.create("round-trip", { keyType: "ed25519" });
+
+        const keystore = await encryptDocument(did.doc, PASSPHRASE);
+        const doc = await decryptDocument(keystore, PASSPHRASE);
+
+        assert.equal(isEncryptedKeystore(keystore), true);
+        assert.equal(JSON.stringify(keystore).includes(did.signingKey), false);
+        assert.equal(doc.signingKey, did.signingKey);
+        assert.equal(doc.publicKey, did.publicKey);
+    });
+
+    it("rejects a wrong passphrase", async () => {
+        const keystore = await encryptDocument(AeonDID.create("wrong-pass").doc, PASSPHRASE);
+
+        await assert.rejects(decryptDocument(keystore, "not the passphrase"), /wrong passphrase/);
+    });
+
+    it("rejects a tampered header", async () => {
+        const keystore = await encryptDocument(AeonDID.create("tampered").doc, PASSPHRASE);
+
+        await assert.rejects(
+            decryptDocument({ ...keystore, did: "did:aeon:someone-else" }, PASSPHRASE),
+            /corrupted/
+        );
+    });
+});
+
+describe("FileStorage", () => {
+    it("writes owner-only files", async () => {
+        const dir = await tempDir();
+        const storage = new FileStorage(dir, { passphrase: PASSPHRASE });
+
+        await AeonDID.create("private").save({ storage });
+
+        const { mode } = await fs.stat(join(dir, "private.json"));
+        assert.equal(mode & 0o777, 0o600);
+    });
+
+    it("migrates plaintext DIDs to the encrypted format", async () => {
+        const dir = await tempDir();
+        const did = AeonDID.create("legacy");
+        await did.save({ storage: new FileStorage(dir) });
+
+        const migrated = await new FileStorage(dir, { passphrase: PASSPHRASE }).migrate();
+
+        assert.deepEqual(migrated, ["legacy"]);
+        assert.equal(isEncryptedKeystore(await readJson(join(dir, "legacy.json"))), true);
+        const loaded = await AeonDID.load("legacy", { storage: new FileStorage(dir), passphrase: PASSPHRASE });
+        assert.equal(loaded?.signingKey, did.signingKey);
+    });
+
+    it("refuses to overwrite an encrypted DID without a passphrase", async () => {
+        const dir = await tempDir();
+        await AeonDID.create("guarded").save({ storage: new FileStorage(dir, { passphrase: PASSPHRASE }) });
+        const did = await AeonDID.load("guarded", { storage: new FileStorage(dir), passphrase: PASSPHRASE });
+        did!.rotateKey();
+
+        await assert.rejects(did!.save({ storage: new FileStorage(dir) }), /passphrase is required/);
+        assert.equal(isEncryptedKeystore(await readJson(join(dir, "guarded.json"))), true);
+    });
+
+    it("saves a loaded DID back where it came from, still encrypted", async () => {
+        const dir = await tempDir();
+        await AeonDID.create("reloaded").save({ storage: new FileStorage(dir, { passphrase: PASSPHRASE }) });
+        const did = await AeonDID.load("reloaded", { storage: new FileStorage(dir), passphrase: PASSPHRASE });
+
+        did!.rotateKey();
+        await did!.save();
+
+        const stored = await readJson(join(dir, "reloaded.json"));
+        assert.equal(isEncryptedKeystore(stored), true);
+        assert.equal(stored.keyId, "key-2");
+    });
+});
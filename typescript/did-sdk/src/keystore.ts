@@ -0,0 +1,218 @@
+/**
+ * @aeon/did-sdk - Encrypted Keystore
+ * 
+ * Passphrase-protected DID document format (scrypt + AES-256-GCM).
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "crypto";
+import type { AeonDIDDocument, KeyType } from "./types.js";
+
+/** scrypt cost parameters (N=2^15, r=8, p=1 needs ~32 MB) */
+const SCRYPT_N = 32768;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const SCRYPT_MAXMEM = 64 * 1024 * 1024;
+const KEY_LENGTH = 32;
+
+/**
+ * On-disk format of an encrypted DID document
+ * 
+ * Public fields stay readable so tooling can list DIDs without the
+ * passphrase; they are bound to the ciphertext as AES-GCM associated data.
+ */
+export interface EncryptedKeystore {
+    version: 1;
+    did: string;
+    name: string;
+    keyType?: KeyType;
+    publicKey?: string;
+    createdAt: string;
+    keyId?: string;
+    keyValidFrom?: string;
+    keyHistory?: Array<{
+        keyId: string;
+        keyType: KeyType;
+        publicKey?: string;
+        validFrom: string;
+        validUntil: string;
+    }>;
+    revocations?: Array<{ keyId: string; revokedAt: string; reason?: string }>;
+    crypto: {
+        cipher: "aes-256-gcm";
+        ciphertext: string;
+        iv: string;
+        tag: string;
+        kdf: "scrypt";
+        kdfparams: {
+            salt: string;
+            n: number;
+            r: number;
+            p: number;
+            dklen: number;
+        };
+    };
+}
+
+/**
+ * Check whether parsed file content is an encrypted keystore
+ */
+export function isEncryptedKeystore(value: unknown): value is EncryptedKeystore {
+    return !!value
+        && typeof value === "object"
+        && (value as EncryptedKeystore).version === 1
+        && typeof (value as EncryptedKeystore).crypto === "object";
+}
+
+/**
+ * Encrypt a DID document with a passphrase
+ */
+export async function encryptDocument(
+    doc: AeonDIDDocument,
+    passphrase: string
+): Promise<EncryptedKeystore> {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const key = await deriveKey(passphrase, salt, SCRYPT_N, SCRYPT_R, SCRYPT_P, KEY_LENGTH);
+
+    const header = keystoreHeader({
+        version: 1,
+        did: doc.did,
+        name: doc.name,
+        keyType: doc.keyType,
+        publicKey: doc.publicKey,
+        createdAt: new Date(doc.createdAt).toISOString(),
+        keyId: doc.keyId,
+        keyValidFrom: doc.keyValidFrom && new Date(doc.keyValidFrom).toISOString(),
+        // Retired keys without their secrets, so the DID Document can list them
+        keyHistory: doc.keyHistory?.map(key => ({
+            keyId: key.keyId,
+            keyType: key.keyType,
+            publicKey: key.publicKey,
+            validFrom: new Date(key.validFrom).toISOString(),
+            validUntil: new Date(key.validUntil).toISOString(),
+        })),
+        revocations: doc.revocations?.map(record => ({
+            keyId: record.keyId,
+            revokedAt: new Date(record.revokedAt).toISOString(),
+            reason: record.reason,
+        })),
+    });
+
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    cipher.setAAD(Buffer.from(JSON.stringify(header)));
+    const ciphertext = Buffer.concat([
+        cipher.update(JSON.stringify(doc), "utf-8"),
+        cipher.final(),
+    ]);
+
+    return {
+        ...header,
+        crypto: {
+            cipher: "aes-256-gcm",
+            ciphertext: ciphertext.toString("base64"),
+            iv: iv.toString("base64"),
+            tag: cipher.getAuthTag().toString("base64"),
+            kdf: "scrypt",
+            kdfparams: {
+                salt: salt.toString("base64"),
+                n: SCRYPT_N,
+                r: SCRYPT_R,
+                p: SCRYPT_P,
+                dklen: KEY_LENGTH,
+            },
+        },
+    };
+}
+
+/**
+ * Decrypt an encrypted keystore
+ * 
+ * @throws If the passphrase is wrong or the file was tampered with
+ */
+export async function decryptDocument(
+    keystore: EncryptedKeystore,
+    passphrase: string
+): Promise<AeonDIDDocument> {
+    const { crypto: params } = keystore;
+    const { salt, n, r, p, dklen } = params.kdfparams;
+    const key = await deriveKey(passphrase, Buffer.from(salt, "base64"), n, r, p, dklen);
+
+    const header = keystoreHeader(keystore);
+
+    try {
+        const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(params.iv, "base64"));
+        decipher.setAAD(Buffer.from(JSON.stringify(header)));
+        decipher.setAuthTag(Buffer.from(params.tag, "base64"));
+        const plaintext = Buffer.concat([
+            decipher.update(Buffer.from(params.ciphertext, "base64")),
+            decipher.final(),
+        ]);
+
+        return JSON.parse(plaintext.toString("utf-8"));
+    } catch {
+        throw new Error(`Unable to decrypt DID "${keystore.name}": wrong passphrase or corrupted file`);
+    }
+}
+
+/**
+ * Public part of a DID from its keystore header, without decrypting
+ * (signingKey is empty); enough to publish its DID Document
+ */
+export function publicDocument(keystore: EncryptedKeystore): AeonDIDDocument {
+    return {
+        did: keystore.did,
+        name: keystore.name,
+        signingKey: "",
+        keyType: keystore.keyType,
+        publicKey: keystore.publicKey,
+        createdAt: new Date(keystore.createdAt),
+        keyId: keystore.keyId,
+        keyValidFrom: keystore.keyValidFrom ? new Date(keystore.keyValidFrom) : undefined,
+        keyHistory: keystore.keyHistory?.map(key => ({
+            ...key,
+            signingKey: "",
+            validFrom: new Date(key.validFrom),
+            validUntil: new Date(key.validUntil),
+        })),
+        revocations: keystore.revocations?.map(record => ({
+            ...record,
+            revokedAt: new Date(record.revokedAt),
+        })),
+    };
+}
+
+/**
+ * The plaintext header, bound to the ciphertext as associated data.
+ * Fields added later go last: absent ones vanish from the JSON, so older
+ * files keep the associated data they were written with.
+ */
+function keystoreHeader(source: Omit<EncryptedKeystore, "crypto">): Omit<EncryptedKeystore, "crypto"> {
+    return {
+        version: source.version,
+        did: source.did,
+        name: source.name,
+        keyType: source.keyType,
+        publicKey: source.publicKey,
+        createdAt: source.createdAt,
+        keyId: source.keyId,
+        keyValidFrom: source.keyValidFrom,
+        keyHistory: source.keyHistory,
+        revocations: source.revocations,
+    };
+}
+
+function deriveKey(
+    passphrase: string,
+    salt: Buffer,
+    n: number,
+    r: number,
+    p: number,
+    keyLength: number
+): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        scrypt(passphrase, salt, keyLength, { N: n, r, p, maxmem: SCRYPT_MAXMEM }, (err, key) => {
+            if (err) reject(err);
+            else resolve(key);
+        });
+    });
+}
@@ -0,0 +1,84 @@
+/**
+ * Replay protection: MemoryNonceStore and Signer nonce checks.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemoryNonceStore } from "./nonce.js";
+import { Signer } from "./signer.js";
+
+const KEY = Signer.generateKey();
+
+describe("MemoryNonceStore", () => {
+    it("rejects a nonce it has seen until the entry expires", async () => {
+        const store = new MemoryNonceStore();
+        const expiresAt = Date.now() + 20;
+
+        assert.equal(store.checkAndStore("scope", "n-1", expiresAt), true);
+        assert.equal(store.checkAndStore("scope", "n-1", expiresAt), false);
+        assert.equal(store.checkAndStore("other-scope", "n-1", expiresAt), true);
+
+        await new Promise((resolve) => setTimeout(resolve, 30));
+        assert.equal(store.checkAndStore("scope", "n-1", Date.now() + 20), true);
+    });
+
+    it("evicts the least recently seen nonce at the bound", () => {
+        const store = new MemoryNonceStore(2);
+        const expiresAt = Date.now() + 60_000;
+        store.checkAndStore("scope", "a", expiresAt);
+        store.checkAndStore("scope", "b", expiresAt);
+        // Seeing "a" again makes "b" the least recently seen
+        store.checkAndStore("scope", "a", expiresAt);
+
+        store.checkAndStore("scope", "c", expiresAt);
+
+        assert.equal(store.size, 2);
+        assert.equal(store.checkAndStore("scope", "a", expiresAt), false);
+        assert.equal(store.checkAndStore("scope", "b", expiresAt), true);
+    });
+
+    it("requires room for at least one nonce", () => {
+        assert.throws(() => new MemoryNonceStore(0), /at least 1/);
+    });
+});
+
+describe("Signer replay protection", () => {
+    it("rejects a replayed signature", () => {
+        const nonceStore = new MemoryNonceStore();
+        const signature = Signer.sign(KEY, "hello");
+
+        assert.equal(Signer.verifyDetailed(KEY, signature, "hello", { nonceStore }).status, "ok");
+        assert.equal(Signer.verifyDetailed(KEY, signature, "hello", { nonceStore }).status, "replayed");
+    });
+
+    it("does not burn the nonce of a forged signature", () => {
+        const nonceStore = new MemoryNonceStore();
+        const signature = Signer.sign(KEY, "hello");
+        const forged = { ...signature, hash: "0".repeat(64) };
+
+        assert.equal(Signer.verifyDetailed(KEY, forged, "hello", { nonceStore }).status, "bad-hash");
+        assert.equal(Signer.verifyDetailed(KEY, signature, "hello", { nonceStore }).status, "ok");
+    });
+
+    it("shares the default store across the process", () => {
+        const signature = Signer.sign(KEY, "shared");
+
+        assert.equal(Signer.verifyDetailed(KEY, signature, "shared").status, "ok");
+        assert.equal(Signer.verifyDetailed(KEY, signature, "shared").status, "replayed");
+        // A component with its own store is unaffected
+        assert.equal(Signer.verifyDetailed(KEY, signature, "shared", { nonceStore: new MemoryNonceStore() }).status, "ok");
+    });
+
+    it("rejects timestamps beyond the future clock skew", () => {
+        const nonceStore = new MemoryNonceStore();
+        const nearFuture = Signer.sign(KEY, "hello", { timestamp: String(Date.now() + 10_000) });
+        const farFuture = Signer.sign(KEY, "hello", { timestamp: String(Date.now() + 60_000) });
+
+        assert.equal(Signer.verifyDetailed(KEY, nearFuture, "hello", { nonceStore }).status, "ok");
+        assert.equal(Signer.verifyDetailed(KEY, farFuture, "hello", { nonceStore }).status, "not-yet-valid");
+        assert.equal(
+            Signer.verifyDetailed(KEY, farFuture, "hello", { nonceStore, clockSkewMs: 120_000 }).status,
+            "ok"
+        );
+    });
+});
@@ -0,0 +1,68 @@
+/**
+ * @aeon/did-sdk - Nonce Store
+ * 
+ * Replay protection for signature verification.
+ */
+
+import type { NonceStore } from "./types.js";
+
+/**
+ * Bounded in-memory nonce store with LRU eviction
+ * 
+ * Nonces are kept until their signature would have expired anyway. When
+ * more than `maxEntries` nonces are live, the least recently seen ones are
+ * evicted first, so size the store for your peak signatures per max-age window.
+ * 
+ * @example
+ * ```typescript
+ * const nonceStore = new MemoryNonceStore(50_000);
+ * Signer.verify(key, sig, message, { nonceStore });
+ * ```
+ */
+export class MemoryNonceStore implements NonceStore {
+    /** "scope:nonce" → expiry (Map iteration order doubles as LRU order) */
+    private entries = new Map<string, number>();
+
+    constructor(private maxEntries: number = 10_000) {
+        if (maxEntries < 1) {
+            throw new Error("MemoryNonceStore maxEntries must be at least 1");
+        }
+    }
+
+    checkAndStore(scope: string, nonce: string, expiresAt: number): boolean {
+        const now = Date.now();
+        const entry = `${scope}:${nonce}`;
+
+        const seenUntil = this.entries.get(entry);
+        if (seenUntil !== undefined && seenUntil > now) {
+            // Refresh LRU position
+            this.entries.delete(entry);
+            this.entries.set(entry, seenUntil);
+            return false;
+        }
+
+        this.entries.delete(entry);
+        this.entries.set(entry, expiresAt);
+        this.evict(now);
+        return true;
+    }
+
+    /** Number of nonces currently held */
+    get size(): number {
+        return this.entries.size;
+    }
+
+    /** Forget all nonces */
+    clear(): void {
+        this.entries.clear();
+    }
+
+    private evict(now: number): void {
+        for (const [entry, expiresAt] of this.entries) {
+            if (this.entries.size <= this.maxEntries && expiresAt > now) {
+                break;
+            }
+            this.entries.delete(entry);
+        }
+    }
+}
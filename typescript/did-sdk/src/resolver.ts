@@ -0,0 +1,171 @@
+/**
+ * @aeon/did-sdk - DID Resolution
+ * 
+ * Resolve did:aeon identifiers to W3C DID Documents.
+ */
+
+import type { DIDDocument, DIDSource, DIDStorage } from "./types.js";
+import { AeonDID } from "./did.js";
+
+/**
+ * Resolves did:aeon DIDs by querying a list of sources in order
+ * 
+ * @example
+ * ```typescript
+ * const registry = new MemoryRegistry();
+ * const resolver = new DIDResolver([
+ *     registry,
+ *     new HttpSource("https://registry.example.com/dids"),
+ * ]);
+ * 
+ * const doc = await resolver.resolve("did:aeon:partner-agent");
+ * ```
+ */
+export class DIDResolver {
+    private sources: DIDSource[];
+
+    constructor(sources: DIDSource[] = [new StorageSource()]) {
+        this.sources = [...sources];
+    }
+
+    /**
+     * Add a source (queried after existing ones)
+     */
+    addSource(source: DIDSource): this {
+        this.sources.push(source);
+        return this;
+    }
+
+    /**
+     * Resolve a DID to its public DID Document
+     * 
+     * @param did - DID string (e.g., "did:aeon:my-agent")
+     * @returns DID Document or null if no source knows the DID
+     */
+    async resolve(did: string): Promise<DIDDocument | null> {
+        // Throws on anything that is not a did:aeon identifier
+        AeonDID.parseName(did);
+
+        for (const source of this.sources) {
+            const doc = await source.resolve(did);
+            if (doc) {
+                if (doc.id !== did) {
+                    throw new Error(`DID Document id mismatch: expected ${did}, got ${doc.id}`);
+                }
+                return doc;
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Extract a hex-encoded Ed25519 public key from a DID Document
+     * 
+     * @param doc - Resolved DID Document
+     * @param keyId - Verification method ID (default: first authentication key)
+     * @returns Hex public key for Signer.verify, or null if none
+     */
+    static getPublicKey(doc: DIDDocument, keyId?: string): string | null {
+        const id = keyId || doc.authentication[0];
+        const method = doc.verificationMethod.find(vm => vm.id === id);
+        if (!method || method.publicKeyJwk.crv !== "Ed25519") {
+            return null;
+        }
+        return Buffer.from(method.publicKeyJwk.x, "base64url").toString("hex");
+    }
+
+    /**
+     * Find the Ed25519 public key that was valid at a point in time,
+     * honouring validity windows and revocations (e.g. for a signature
+     * made before a key rotation)
+     * 
+     * @param doc - Resolved DID Document
+     * @param timestamp - Unix time in milliseconds (e.g. the signature timestamp)
+     * @returns Hex public key for Signer.verify, or null if no key was valid then
+     */
+    static getPublicKeyAt(doc: DIDDocument, timestamp: number): string | null {
+        const method = doc.verificationMethod.find(vm =>
+            vm.publicKeyJwk.crv === "Ed25519"
+            && (!vm.validFrom || timestamp >= Date.parse(vm.validFrom))
+            && (!vm.validUntil || timestamp < Date.parse(vm.validUntil))
+            && (!vm.revoked || timestamp < Date.parse(vm.revoked))
+        );
+        return method ? Buffer.from(method.publicKeyJwk.x, "base64url").toString("hex") : null;
+    }
+}
+
+/**
+ * Resolves DIDs from local DID storage (default: the default storage,
+ * ~/.aeon/dids/ unless changed). Encrypted DIDs resolve without the
+ * passphrase, from their public keystore header.
+ */
+export class StorageSource implements DIDSource {
+    constructor(private storage?: DIDStorage) {}
+
+    async resolve(did: string): Promise<DIDDocument | null> {
+        const name = AeonDID.parseName(did);
+        const storage = this.storage || AeonDID.getDefaultStorage();
+        const doc = storage.loadPublic
+            ? await storage.loadPublic(name)
+            : await storage.load(name);
+
+        return doc ? AeonDID.fromDocument(doc).toDIDDocument() : null;
+    }
+}
+
+/**
+ * In-memory DID registry
+ */
+export class MemoryRegistry implements DIDSource {
+    private documents = new Map<string, DIDDocument>();
+
+    /**
+     * Register a DID (only its public DID Document is kept)
+     */
+    register(entry: AeonDID | DIDDocument): void {
+        const doc = entry instanceof AeonDID ? entry.toDIDDocument() : entry;
+        this.documents.set(doc.id, doc);
+    }
+
+    /**
+     * Remove a DID from the registry
+     */
+    unregister(did: string): boolean {
+        return this.documents.delete(did);
+    }
+
+    async resolve(did: string): Promise<DIDDocument | null> {
+        return this.documents.get(did) || null;
+    }
+}
+
+/**
+ * Resolves DIDs from an HTTP endpoint
+ * Performs GET {baseUrl}/{did} and expects a DID Document as JSON (404 = unknown).
+ */
+export class HttpSource implements DIDSource {
+    private baseUrl: string;
+
+    constructor(
+        baseUrl: string,
+        private headers: Record<string, string> = {}
+    ) {
+        this.baseUrl = baseUrl.replace(/\/+$/, "");
+    }
+
+    async resolve(did: string): Promise<DIDDocument | null> {
+        const response = await fetch(`${this.baseUrl}/${encodeURIComponent(did)}`, {
+            headers: { Accept: "application/did+json, application/json", ...this.headers },
+        });
+
+        if (response.status === 404) {
+            return null;
+        }
+        if (!response.ok) {
+            throw new Error(`DID resolution failed for ${did}: HTTP ${response.status}`);
+        }
+
+        return await response.json() as DIDDocument;
+    }
+}
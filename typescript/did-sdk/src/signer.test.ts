@@ -0,0 +1,96 @@
+/**
+ * Verification statuses reported by Signer.verifyDetailed and AeonDID.verifyDetailed.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AeonDID } from "./did.js";
+import { MemoryNonceStore } from "./nonce.js";
+import { Signer } from "./signer.js";
+import type { VerifyOptions } from "./types.js";
+
+const KEY = Signer.generateKey();
+
+function options(extra: VerifyOptions = {}): VerifyOptions {
+    return { nonceStore: new MemoryNonceStore(), ...extra };
+}
+
+describe("verifyDetailed statuses", () => {
+    it("ok", () => {
+        const result = Signer.verifyDetailed(KEY, Signer.sign(KEY, { a: 1 }), { a: 1 }, options());
+
+        assert.equal(result.ok, true);
+        assert.equal(result.status, "ok");
+    });
+
+    it("ok for Ed25519 with the public key", () => {
+        const { privateKey, publicKey } = Signer.generateKeyPair();
+        const signature = Signer.sign(privateKey, "hello", { keyType: "ed25519" });
+
+        const result = Signer.verifyDetailed(publicKey, signature, "hello", options({ keyType: "ed25519" }));
+
+        assert.equal(result.status, "ok");
+    });
+
+    it("expired", () => {
+        const signature = Signer.sign(KEY, "hello", { timestamp: String(Date.now() - 10 * 60 * 1000) });
+
+        const result = Signer.verifyDetailed(KEY, signature, "hello", options());
+
+        assert.equal(result.ok, false);
+        assert.equal(result.status, "expired");
+        assert.ok(result.ageMs! >= 10 * 60 * 1000);
+    });
+
+    it("not-yet-valid", () => {
+        const signature = Signer.sign(KEY, "hello", { timestamp: String(Date.now() + 5 * 60 * 1000) });
+
+        assert.equal(Signer.verifyDetailed(KEY, signature, "hello", options()).status, "not-yet-valid");
+    });
+
+    it("bad-hash", () => {
+        const signature = Signer.sign(KEY, "hello");
+
+        assert.equal(Signer.verifyDetailed(KEY, signature, "tampered", options()).status, "bad-hash");
+        assert.equal(Signer.verifyDetailed(Signer.generateKey(), signature, "hello", options()).status, "bad-hash");
+    });
+
+    it("malformed", () => {
+        const signature = Signer.sign(KEY, "hello");
+
+        for (const broken of [
+            { ...signature, timestamp: "yesterday" },
+            { ...signature, nonce: "" },
+            { ...signature, hash: "not-hex" },
+            { ...signature, hash: signature.hash.slice(2) },
+        ]) {
+            assert.equal(Signer.verifyDetailed(KEY, broken, "hello", options()).status, "malformed");
+        }
+    });
+
+    it("replayed", () => {
+        const signature = Signer.sign(KEY, "hello");
+        const verifyOptions = options();
+
+        Signer.verifyDetailed(KEY, signature, "hello", verifyOptions);
+
+        assert.equal(Signer.verifyDetailed(KEY, signature, "hello", verifyOptions).status, "replayed");
+    });
+
+    it("revoked", () => {
+        const did = AeonDID.create("status-revoked");
+        const { revokedAt } = did.revokeKey();
+        const signature = Signer.sign(did.signingKey, "hello", { timestamp: String(revokedAt.getTime()) });
+
+        assert.equal(did.verifyDetailed(signature, "hello", options()).status, "revoked");
+    });
+
+    it("unknown-key", () => {
+        const did = AeonDID.create("status-unknown");
+        const signature = Signer.sign(did.signingKey, "hello", {
+            timestamp: String(did.createdAt.getTime() - 1000),
+        });
+
+        assert.equal(did.verifyDetailed(signature, "hello", options()).status, "unknown-key");
+    });
+});
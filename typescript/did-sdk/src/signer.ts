@@ -1,21 +1,57 @@
 /**
- * @aeon/did-sdk - HMAC-SHA256 Signer
+ * @aeon/did-sdk - HMAC-SHA256 / Ed25519 Signer
  * 
  * Provides cryptographic signing and verification for AEON agents.
  */
 
-import { createHmac, randomBytes } from "crypto";
+import {
+    createHash,
+    createHmac,
+    createPrivateKey,
+    createPublicKey,
+    generateKeyPairSync,
+    randomBytes,
+    sign as cryptoSign,
+    verify as cryptoVerify,
+} from "crypto";
+import type { KeyObject } from "crypto";
 import { v4 as uuidv4 } from "uuid";
-import type { Signature, SignOptions } from "./types.js";
+import type {
+    KeyPair,
+    KeyType,
+    NonceStore,
+    Signature,
+    SignOptions,
+    VerificationResult,
+    VerifyOptions,
+} from "./types.js";
+import { MemoryNonceStore } from "./nonce.js";
+import { canonicalize } from "./canonical.js";
+
+/** DER prefix wrapping a raw 32-byte Ed25519 seed as PKCS#8 */
+const ED25519_PKCS8_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex");
+
+/** DER prefix wrapping a raw 32-byte Ed25519 public key as SPKI */
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
 
 /**
- * HMAC-SHA256 Signer for AEON DID authentication
+ * HMAC-SHA256 / Ed25519 Signer for AEON DID authentication
+ * 
+ * Replay protection: unless a `nonceStore` is passed, verification records
+ * nonces in one in-memory store shared by the whole process. Verifying the
+ * same signature a second time, anywhere in the process, reports
+ * "replayed". Components that verify the same messages independently
+ * (e.g. a gateway and the service behind it in one process) should each
+ * pass their own store, or `nonceStore: false` where replays are checked
+ * elsewhere.
  */
 export class Signer {
+    private static defaultNonceStore: NonceStore | null = new MemoryNonceStore();
+
     /**
-     * Sign a message using HMAC-SHA256
+     * Sign a message using HMAC-SHA256 (default) or Ed25519
      * 
-     * @param signingKey - The secret key (hex-encoded, 256-bit)
+     * @param signingKey - The secret key (hex-encoded, 256-bit); the private key for Ed25519
      * @param message - The message to sign (string or object)
      * @param options - Optional signing parameters
      * @returns Signature object with timestamp, nonce, and hash
@@ -42,6 +78,12 @@ export class Signer {
         // Create payload: timestamp:nonce:message
         const payload = `${timestamp}:${nonce}:${messageStr}`;
 
+        if (options?.keyType === "ed25519") {
+            const hash = cryptoSign(null, Buffer.from(payload), this.ed25519PrivateKey(signingKey))
+                .toString("hex");
+            return { timestamp, nonce, hash };
+        }
+
         // Generate HMAC-SHA256 hash
         const hash = createHmac("sha256", signingKey)
             .update(payload)
@@ -51,57 +93,182 @@ export class Signer {
     }
 
     /**
-     * Stable JSON stringify with sorted keys
+     * Canonical JSON (RFC 8785) of a message
      * Ensures consistent serialization across languages
      */
     private static stableStringify(value: unknown): string {
-        return JSON.stringify(this.sortKeys(value));
-    }
-
-    private static sortKeys(value: unknown): unknown {
-        if (Array.isArray(value)) {
-            return value.map((item) => this.sortKeys(item));
-        }
-        if (value && typeof value === "object") {
-            const record = value as Record<string, unknown>;
-            const next: Record<string, unknown> = {};
-            for (const key of Object.keys(record).sort()) {
-                next[key] = this.sortKeys(record[key]);
-            }
-            return next;
-        }
-        return value;
+        return canonicalize(value);
     }
 
     /**
      * Verify a signature
      * 
-     * @param signingKey - The secret key used for signing
+     * Rejects expired signatures, timestamps too far in the future and
+     * nonces already seen for the same key (replays).
+     * Use verifyDetailed to find out why a signature was rejected.
+     * 
+     * @param verificationKey - The secret key used for signing (HMAC) or the signer's public key (Ed25519)
      * @param signature - The signature to verify
      * @param message - The original message
-     * @param maxAgeMs - Maximum age of signature in ms (default: 5 minutes)
-     * @returns True if signature is valid and not expired
+     * @param options - Maximum age in ms (default: 5 minutes) or verify options
+     * @returns True if signature is valid, fresh and not replayed
      * 
      * @example
      * ```typescript
      * const valid = Signer.verify(key, signature, "message");
      * // → true
+     * 
+     * const valid = Signer.verify(publicKey, signature, "message", { keyType: "ed25519" });
      * ```
      */
     static verify(
-        signingKey: string,
+        verificationKey: string,
         signature: Signature,
         message: string | object,
-        maxAgeMs: number = 5 * 60 * 1000 // 5 minutes
+        options: number | VerifyOptions = {}
     ): boolean {
+        return this.verifyDetailed(verificationKey, signature, message, options).ok;
+    }
+
+    /**
+     * Verify a signature and report why it was rejected
+     * 
+     * @param verificationKey - The secret key used for signing (HMAC) or the signer's public key (Ed25519)
+     * @param signature - The signature to verify
+     * @param message - The original message
+     * @param options - Maximum age in ms (default: 5 minutes) or verify options
+     * @returns Verification result with status and age metadata
+     * 
+     * @example
+     * ```typescript
+     * const result = Signer.verifyDetailed(key, signature, "message");
+     * if (!result.ok) {
+     *     console.warn(`Signature rejected (${result.status}): ${result.reason}`);
+     * }
+     * ```
+     */
+    static verifyDetailed(
+        verificationKey: string,
+        signature: Signature,
+        message: string | object,
+        options: number | VerifyOptions = {}
+    ): VerificationResult {
+        const opts: VerifyOptions = typeof options === "number" ? { maxAgeMs: options } : options;
+        const maxAgeMs = opts.maxAgeMs ?? 5 * 60 * 1000; // 5 minutes
+        const clockSkewMs = opts.clockSkewMs ?? 30 * 1000; // 30 seconds
+
+        const malformed = this.checkFormat(signature, opts.keyType);
+        if (malformed) {
+            return { ok: false, status: "malformed", reason: malformed };
+        }
+
         // Check timestamp age
         const signedAt = parseInt(signature.timestamp, 10);
         const now = Date.now();
+        const ageMs = now - signedAt;
 
-        if (now - signedAt > maxAgeMs) {
-            return false; // Signature expired
+        if (ageMs > maxAgeMs) {
+            return {
+                ok: false,
+                status: "expired",
+                reason: `Signature is ${ageMs}ms old (max ${maxAgeMs}ms)`,
+                signedAt,
+                ageMs,
+            };
         }
+        if (-ageMs > clockSkewMs) {
+            return {
+                ok: false,
+                status: "not-yet-valid",
+                reason: `Signature timestamp is ${-ageMs}ms in the future (max skew ${clockSkewMs}ms)`,
+                signedAt,
+                ageMs,
+            };
+        }
+
+        const valid = opts.keyType === "ed25519"
+            ? this.verifyEd25519(verificationKey, signature, message)
+            : this.verifyHmac(verificationKey, signature, message);
+
+        if (!valid) {
+            return {
+                ok: false,
+                status: "bad-hash",
+                reason: "Signature does not match the message and key",
+                signedAt,
+                ageMs,
+            };
+        }
+
+        // Only record nonces of authentic signatures, so forgeries cannot burn them
+        const nonceStore = opts.nonceStore === undefined ? this.defaultNonceStore : opts.nonceStore;
+        if (nonceStore) {
+            const scope = createHash("sha256").update(verificationKey).digest("hex").slice(0, 32);
+            if (!nonceStore.checkAndStore(scope, signature.nonce, signedAt + maxAgeMs)) {
+                return {
+                    ok: false,
+                    status: "replayed",
+                    reason: `Nonce ${signature.nonce} was already used`,
+                    signedAt,
+                    ageMs,
+                };
+            }
+        }
+
+        return { ok: true, status: "ok", signedAt, ageMs };
+    }
+
+    /**
+     * Structural checks on a signature
+     * 
+     * @returns Why the signature is malformed, or null if it is well-formed
+     */
+    private static checkFormat(signature: Signature, keyType?: KeyType): string | null {
+        if (!signature || typeof signature !== "object") {
+            return "Signature is missing";
+        }
+        if (typeof signature.timestamp !== "string" || !/^\d+$/.test(signature.timestamp)) {
+            return `Invalid timestamp: ${JSON.stringify(signature.timestamp)}`;
+        }
+        if (typeof signature.nonce !== "string" || signature.nonce.length === 0) {
+            return "Missing nonce";
+        }
+        if (typeof signature.hash !== "string" || !/^[0-9a-f]*$/i.test(signature.hash)) {
+            return "Hash is not hex-encoded";
+        }
+
+        // HMAC-SHA256: 32 bytes, Ed25519: 64 bytes
+        const expectedLength = keyType === "ed25519" ? 128 : 64;
+        if (signature.hash.length !== expectedLength) {
+            return `Hash has length ${signature.hash.length}, expected ${expectedLength}`;
+        }
+
+        return null;
+    }
 
+    /**
+     * Replace the process-wide nonce store used when none is passed to verify
+     * 
+     * @param store - Nonce store, or null to disable replay protection by default
+     * 
+     * @example
+     * ```typescript
+     * // Several verifier processes: share nonces through your own store
+     * Signer.setDefaultNonceStore(new RedisBackedNonceStore());
+     * ```
+     */
+    static setDefaultNonceStore(store: NonceStore | null): void {
+        this.defaultNonceStore = store;
+    }
+
+    /**
+     * Check an HMAC-SHA256 signature against the shared key
+     */
+    private static verifyHmac(
+        signingKey: string,
+        signature: Signature,
+        message: string | object
+    ): boolean {
         // Recompute the hash
         const expected = this.sign(signingKey, message, {
             timestamp: signature.timestamp,
@@ -112,6 +279,31 @@ export class Signer {
         return this.constantTimeEqual(signature.hash, expected.hash);
     }
 
+    /**
+     * Check an Ed25519 signature against the signer's public key
+     */
+    private static verifyEd25519(
+        publicKey: string,
+        signature: Signature,
+        message: string | object
+    ): boolean {
+        const messageStr = typeof message === "object"
+            ? this.stableStringify(message)
+            : message;
+        const payload = `${signature.timestamp}:${signature.nonce}:${messageStr}`;
+
+        try {
+            return cryptoVerify(
+                null,
+                Buffer.from(payload),
+                this.ed25519PublicKey(publicKey),
+                Buffer.from(signature.hash, "hex")
+            );
+        } catch {
+            return false; // Malformed key or signature
+        }
+    }
+
     /**
      * Generate a new random signing key
      * 
@@ -127,6 +319,67 @@ export class Signer {
         return randomBytes(32).toString("hex");
     }
 
+    /**
+     * Generate a new Ed25519 keypair
+     * 
+     * @returns Hex-encoded raw private key seed and public key
+     * 
+     * @example
+     * ```typescript
+     * const { privateKey, publicKey } = Signer.generateKeyPair();
+     * const sig = Signer.sign(privateKey, "message", { keyType: "ed25519" });
+     * Signer.verify(publicKey, sig, "message", { keyType: "ed25519" });
+     * ```
+     */
+    static generateKeyPair(): KeyPair {
+        const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+        const pkcs8 = privateKey.export({ format: "der", type: "pkcs8" });
+        const spki = publicKey.export({ format: "der", type: "spki" });
+
+        return {
+            privateKey: pkcs8.subarray(ED25519_PKCS8_PREFIX.length).toString("hex"),
+            publicKey: spki.subarray(ED25519_SPKI_PREFIX.length).toString("hex"),
+        };
+    }
+
+    /**
+     * Derive the Ed25519 public key for a private key seed
+     * 
+     * @param privateKey - Hex-encoded Ed25519 private key seed
+     * @returns Hex-encoded public key
+     */
+    static derivePublicKey(privateKey: string): string {
+        const spki = createPublicKey(this.ed25519PrivateKey(privateKey))
+            .export({ format: "der", type: "spki" });
+        return spki.subarray(ED25519_SPKI_PREFIX.length).toString("hex");
+    }
+
+    /**
+     * Check whether a string is a valid key for the given algorithm
+     */
+    static isValidKey(key: string, keyType: KeyType = "hmac-sha256"): boolean {
+        if (keyType === "ed25519") {
+            return /^[0-9a-f]{64}$/i.test(key);
+        }
+        return key.length > 0;
+    }
+
+    private static ed25519PrivateKey(privateKey: string): KeyObject {
+        return createPrivateKey({
+            key: Buffer.concat([ED25519_PKCS8_PREFIX, Buffer.from(privateKey, "hex")]),
+            format: "der",
+            type: "pkcs8",
+        });
+    }
+
+    private static ed25519PublicKey(publicKey: string): KeyObject {
+        return createPublicKey({
+            key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKey, "hex")]),
+            format: "der",
+            type: "spki",
+        });
+    }
+
     /**
      * Hash a message without timestamp/nonce
      * Useful for creating deterministic hashes
@@ -0,0 +1,39 @@
+/**
+ * EnvStorage lookups.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { AeonDID } from "./did.js";
+import { EnvStorage } from "./storage.js";
+
+describe("EnvStorage", () => {
+    it("loads a DID from an inline variable or a _FILE path", async () => {
+        const did = AeonDID.create("env-agent");
+        const dir = await fs.mkdtemp(join(tmpdir(), "aeon-env-"));
+        const path = join(dir, "env-agent.json");
+        await fs.writeFile(path, JSON.stringify(did.doc));
+
+        const inline = new EnvStorage({ env: { AEON_DID_ENV_AGENT: JSON.stringify(did.doc) } });
+        const fromFile = new EnvStorage({ env: { AEON_DID_ENV_AGENT_FILE: path } });
+
+        assert.equal((await inline.load("env-agent"))?.signingKey, did.signingKey);
+        assert.equal((await fromFile.load("env-agent"))?.signingKey, did.signingKey);
+    });
+
+    it("returns null when the _FILE path does not exist", async () => {
+        const storage = new EnvStorage({ env: { AEON_DID_GONE_FILE: join(tmpdir(), "aeon-missing", "gone.json") } });
+
+        assert.equal(await storage.load("gone"), null);
+    });
+
+    it("throws when the _FILE path cannot be read", async () => {
+        const dir = await fs.mkdtemp(join(tmpdir(), "aeon-env-"));
+        const storage = new EnvStorage({ env: { AEON_DID_BROKEN_FILE: dir } });
+
+        await assert.rejects(storage.load("broken"), { code: "EISDIR" });
+    });
+});
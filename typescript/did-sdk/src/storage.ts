@@ -0,0 +1,387 @@
+/**
+ * @aeon/did-sdk - DID Storage Backends
+ * 
+ * File, in-memory and environment/secret-file storage for DID documents.
+ */
+
+import { promises as fs } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+import type { AeonDIDDocument, DIDStorage, StorageOptions } from "./types.js";
+import { decryptDocument, encryptDocument, isEncryptedKeystore, publicDocument } from "./keystore.js";
+
+/**
+ * Turn parsed stored JSON (plaintext or encrypted) into a DID document
+ */
+async function readDocument(
+    parsed: unknown,
+    name: string,
+    passphrase?: string
+): Promise<AeonDIDDocument> {
+    let doc: AeonDIDDocument;
+    if (isEncryptedKeystore(parsed)) {
+        if (!passphrase) {
+            throw new Error(`DID "${name}" is encrypted; a passphrase is required to load it`);
+        }
+        doc = await decryptDocument(parsed, passphrase);
+    } else {
+        doc = parsed as AeonDIDDocument;
+    }
+
+    // JSON turns dates into strings
+    doc.createdAt = new Date(doc.createdAt);
+    if (doc.keyValidFrom) {
+        doc.keyValidFrom = new Date(doc.keyValidFrom);
+    }
+    doc.keyHistory = doc.keyHistory?.map(key => ({
+        ...key,
+        validFrom: new Date(key.validFrom),
+        validUntil: new Date(key.validUntil),
+    }));
+    doc.revocations = doc.revocations?.map(record => ({
+        ...record,
+        revokedAt: new Date(record.revokedAt),
+    }));
+    return doc;
+}
+
+/**
+ * Like readDocument, but encrypted documents yield only their public header
+ */
+async function readPublicDocument(parsed: unknown, name: string): Promise<AeonDIDDocument> {
+    return isEncryptedKeystore(parsed) ? publicDocument(parsed) : readDocument(parsed, name);
+}
+
+/**
+ * File-based DID storage
+ * Stores DIDs in ~/.aeon/dids/ (or a custom directory) with owner-only
+ * permissions, encrypted when a passphrase is configured
+ * 
+ * @example
+ * ```typescript
+ * const storage = new FileStorage("/etc/aeon/dids", { passphrase });
+ * await did.save({ storage });
+ * ```
+ */
+export class FileStorage implements DIDStorage {
+    private basePath: string;
+    private passphrase?: string;
+
+    constructor(basePath?: string, options?: Pick<StorageOptions, "passphrase">) {
+        this.basePath = basePath || join(homedir(), ".aeon", "dids");
+        this.passphrase = options?.passphrase;
+    }
+
+    /**
+     * Same directory, different passphrase
+     */
+    withPassphrase(passphrase: string): FileStorage {
+        return new FileStorage(this.basePath, { passphrase });
+    }
+
+    private async ensureDir(): Promise<void> {
+        await fs.mkdir(this.basePath, { recursive: true, mode: 0o700 });
+    }
+
+    private getPath(name: string): string {
+        return join(this.basePath, `${name}.json`);
+    }
+
+    /**
+     * @throws If the stored DID is encrypted and no passphrase is configured
+     * (saving would write its private key back as plaintext)
+     */
+    async save(doc: AeonDIDDocument): Promise<void> {
+        await this.ensureDir();
+        const path = this.getPath(doc.name);
+        if (!this.passphrase && isEncryptedKeystore(await this.readParsed(path))) {
+            throw new Error(`DID "${doc.name}" is stored encrypted; a passphrase is required to overwrite it`);
+        }
+
+        const content = this.passphrase
+            ? await encryptDocument(doc, this.passphrase)
+            : doc;
+        await this.writePrivate(path, JSON.stringify(content, null, 2));
+    }
+
+    async load(name: string): Promise<AeonDIDDocument | null> {
+        const parsed = await this.readParsed(this.getPath(name));
+        return parsed === null ? null : readDocument(parsed, name, this.passphrase);
+    }
+
+    async loadPublic(name: string): Promise<AeonDIDDocument | null> {
+        const parsed = await this.readParsed(this.getPath(name));
+        return parsed === null ? null : readPublicDocument(parsed, name);
+    }
+
+    async list(): Promise<AeonDIDDocument[]> {
+        try {
+            await this.ensureDir();
+            const files = await fs.readdir(this.basePath);
+            const docs: AeonDIDDocument[] = [];
+
+            for (const file of files) {
+                if (file.endsWith(".json")) {
+                    const name = file.replace(".json", "");
+                    try {
+                        const doc = await this.load(name);
+                        if (doc) docs.push(doc);
+                    } catch {
+                        // Encrypted with a different (or no) passphrase
+                    }
+                }
+            }
+
+            return docs;
+        } catch {
+            return [];
+        }
+    }
+
+    async delete(name: string): Promise<boolean> {
+        try {
+            const path = this.getPath(name);
+            await fs.unlink(path);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Re-save every plaintext DID in the encrypted format
+     */
+    async migrate(): Promise<string[]> {
+        if (!this.passphrase) {
+            throw new Error("A passphrase is required to migrate DIDs to encrypted storage");
+        }
+
+        await this.ensureDir();
+        const files = await fs.readdir(this.basePath);
+        const migrated: string[] = [];
+
+        for (const file of files) {
+            if (!file.endsWith(".json")) continue;
+
+            const name = file.replace(".json", "");
+            const parsed = await this.readParsed(this.getPath(name));
+            if (parsed === null || isEncryptedKeystore(parsed)) continue;
+
+            await this.save(await readDocument(parsed, name));
+            migrated.push(name);
+        }
+
+        return migrated;
+    }
+
+    /**
+     * Parsed content of a stored file, or null if it is missing or not JSON
+     */
+    private async readParsed(path: string): Promise<unknown> {
+        try {
+            return JSON.parse(await fs.readFile(path, "utf-8"));
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Write a file readable only by the owner (0600), replacing it atomically
+     */
+    private async writePrivate(path: string, content: string): Promise<void> {
+        const tmpPath = `${path}.${process.pid}.tmp`;
+        await fs.writeFile(tmpPath, content, { encoding: "utf-8", mode: 0o600 });
+        await fs.chmod(tmpPath, 0o600);
+        await fs.rename(tmpPath, path);
+    }
+}
+
+/**
+ * In-memory DID storage
+ * Nothing touches the filesystem; useful for tests and short-lived processes.
+ */
+export class MemoryStorage implements DIDStorage {
+    private documents = new Map<string, AeonDIDDocument>();
+
+    async save(doc: AeonDIDDocument): Promise<void> {
+        this.documents.set(doc.name, structuredClone(doc));
+    }
+
+    async load(name: string): Promise<AeonDIDDocument | null> {
+        const doc = this.documents.get(name);
+        return doc ? structuredClone(doc) : null;
+    }
+
+    async list(): Promise<AeonDIDDocument[]> {
+        return [...this.documents.values()].map(doc => structuredClone(doc));
+    }
+
+    async delete(name: string): Promise<boolean> {
+        return this.documents.delete(name);
+    }
+
+    /** Remove all stored DIDs */
+    clear(): void {
+        this.documents.clear();
+    }
+}
+
+/**
+ * Options for EnvStorage
+ */
+export interface EnvStorageOptions {
+    /** Environment variable prefix (default: "AEON_DID_") */
+    prefix?: string;
+
+    /** Directory of mounted secret files named {name}.json */
+    secretsDir?: string;
+
+    /** Passphrase for DIDs stored in the encrypted keystore format */
+    passphrase?: string;
+
+    /** Environment to read from (default: process.env) */
+    env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Read-only DID storage for containers
+ * 
+ * Looks a DID named "my-agent" up in order:
+ * 1. AEON_DID_MY_AGENT - the DID document JSON
+ * 2. AEON_DID_MY_AGENT_FILE - path to a file holding the JSON
+ * 3. {secretsDir}/my-agent.json - e.g. a mounted Kubernetes secret
+ * 
+ * Documents may be plaintext or in the encrypted keystore format.
+ * 
+ * @example
+ * ```typescript
+ * AeonDID.setDefaultStorage(new EnvStorage({ secretsDir: "/var/run/secrets/aeon" }));
+ * const did = await AeonDID.load("my-agent");
+ * ```
+ */
+export class EnvStorage implements DIDStorage {
+    private prefix: string;
+    private secretsDir?: string;
+    private passphrase?: string;
+    private env: NodeJS.ProcessEnv;
+
+    constructor(options: EnvStorageOptions = {}) {
+        this.prefix = options.prefix ?? "AEON_DID_";
+        this.secretsDir = options.secretsDir;
+        this.passphrase = options.passphrase;
+        this.env = options.env || process.env;
+    }
+
+    private varName(name: string): string {
+        return this.prefix + name.toUpperCase().replace(/-/g, "_");
+    }
+
+    async save(): Promise<void> {
+        throw new Error("EnvStorage is read-only");
+    }
+
+    async load(name: string): Promise<AeonDIDDocument | null> {
+        const content = await this.readRaw(name);
+        if (content === null) {
+            return null;
+        }
+
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(content);
+        } catch {
+            throw new Error(`DID "${name}" from the environment is not valid JSON`);
+        }
+
+        return readDocument(parsed, name, this.passphrase);
+    }
+
+    async loadPublic(name: string): Promise<AeonDIDDocument | null> {
+        const content = await this.readRaw(name);
+        if (content === null) {
+            return null;
+        }
+
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(content);
+        } catch {
+            throw new Error(`DID "${name}" from the environment is not valid JSON`);
+        }
+
+        return readPublicDocument(parsed, name);
+    }
+
+    async list(): Promise<AeonDIDDocument[]> {
+        const names = new Set<string>();
+
+        for (const key of Object.keys(this.env)) {
+            if (key.startsWith(this.prefix) && this.env[key]) {
+                const name = key.slice(this.prefix.length).replace(/_FILE$/, "");
+                names.add(name.toLowerCase().replace(/_/g, "-"));
+            }
+        }
+
+        if (this.secretsDir) {
+            try {
+                for (const file of await fs.readdir(this.secretsDir)) {
+                    if (file.endsWith(".json")) {
+                        names.add(file.replace(".json", ""));
+                    }
+                }
+            } catch {
+                // No secrets mounted
+            }
+        }
+
+        const docs: AeonDIDDocument[] = [];
+        for (const name of names) {
+            try {
+                const doc = await this.load(name);
+                if (doc) docs.push(doc);
+            } catch {
+                // Unreadable or encrypted with a different passphrase
+            }
+        }
+
+        return docs;
+    }
+
+    async delete(): Promise<boolean> {
+        return false;
+    }
+
+    private async readRaw(name: string): Promise<string | null> {
+        const varName = this.varName(name);
+
+        const inline = this.env[varName];
+        if (inline) {
+            return inline;
+        }
+
+        // A missing file means "not stored here", like the other backends;
+        // anything else (e.g. permissions) is a real error
+        const filePath = this.env[`${varName}_FILE`];
+        if (filePath) {
+            return readIfExists(filePath);
+        }
+
+        if (this.secretsDir) {
+            return readIfExists(join(this.secretsDir, `${name}.json`));
+        }
+
+        return null;
+    }
+}
+
+/**
+ * File content, or null if the file does not exist
+ */
+async function readIfExists(path: string): Promise<string | null> {
+    try {
+        return await fs.readFile(path, "utf-8");
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw err;
+    }
+}
@@ -1,9 +1,17 @@
 /**
  * @aeon/did-sdk - Type Definitions
  * 
- * Core interfaces for DID identity and HMAC signing.
+ * Core interfaces for DID identity and HMAC / Ed25519 signing.
  */
 
+/**
+ * Supported signing algorithms
+ *
+ * - "hmac-sha256": shared-secret signing (verifier must hold the signing key)
+ * - "ed25519": asymmetric signing (verifier only needs the public key)
+ */
+export type KeyType = "hmac-sha256" | "ed25519";
+
 /**
  * Represents an AEON DID (Decentralized Identifier)
  */
@@ -14,18 +22,88 @@ export interface AeonDIDDocument {
     /** The agent name */
     name: string;
 
-    /** HMAC-SHA256 signing key (hex-encoded, 256-bit) */
+    /**
+     * Secret signing key (hex-encoded, 256-bit)
+     * For "hmac-sha256" this is the shared HMAC key, for "ed25519" the private key seed.
+     */
     signingKey: string;
 
+    /** Signing algorithm (defaults to "hmac-sha256" for older documents) */
+    keyType?: KeyType;
+
+    /** Ed25519 public key (hex-encoded, 256-bit), safe to publish */
+    publicKey?: string;
+
     /** When the DID was created */
     createdAt: Date;
 
+    /** Identifier of the current key (default: "key-1") */
+    keyId?: string;
+
+    /** When the current key became active (default: createdAt) */
+    keyValidFrom?: Date;
+
+    /** Previous keys with their validity windows, oldest first */
+    keyHistory?: KeyRecord[];
+
+    /** Revoked keys */
+    revocations?: RevocationRecord[];
+
     /** Optional metadata */
     metadata?: Record<string, unknown>;
 }
 
 /**
- * Signature produced by HMAC-SHA256 signing
+ * A retired DID key and the window in which it was valid
+ */
+export interface KeyRecord {
+    /** Key identifier (e.g., "key-1") */
+    keyId: string;
+
+    /** Signing algorithm */
+    keyType: KeyType;
+
+    /** Secret signing key (empty for retired Ed25519 keys, which only need the public key) */
+    signingKey: string;
+
+    /** Ed25519 public key */
+    publicKey?: string;
+
+    /** Start of the validity window (inclusive) */
+    validFrom: Date;
+
+    /** End of the validity window (exclusive) */
+    validUntil: Date;
+}
+
+/**
+ * Revocation of a DID key
+ * Signatures timestamped at or after revokedAt are rejected.
+ */
+export interface RevocationRecord {
+    /** Revoked key identifier */
+    keyId: string;
+
+    /** When the key was revoked */
+    revokedAt: Date;
+
+    /** Optional reason (e.g., "compromised", "superseded") */
+    reason?: string;
+}
+
+/**
+ * Options for rotating a DID key
+ */
+export interface RotateKeyOptions {
+    /** Algorithm for the new key (default: the current key's algorithm) */
+    keyType?: KeyType;
+
+    /** Custom signing key (if not provided, one will be generated) */
+    signingKey?: string;
+}
+
+/**
+ * Signature produced by HMAC-SHA256 or Ed25519 signing
  */
 export interface Signature {
     /** Unix timestamp in milliseconds when signature was created */
@@ -34,10 +112,21 @@ export interface Signature {
     /** Unique nonce (UUIDv4) to prevent replay attacks */
     nonce: string;
 
-    /** HMAC-SHA256 hash of the message (hex-encoded) */
+    /** HMAC-SHA256 hash or Ed25519 signature of the message (hex-encoded) */
     hash: string;
 }
 
+/**
+ * Ed25519 keypair (hex-encoded raw keys)
+ */
+export interface KeyPair {
+    /** Private key seed (32 bytes, keep this secret!) */
+    privateKey: string;
+
+    /** Public key (32 bytes) */
+    publicKey: string;
+}
+
 /**
  * Options for creating a new DID
  */
@@ -45,6 +134,9 @@ export interface CreateDIDOptions {
     /** Custom signing key (if not provided, one will be generated) */
     signingKey?: string;
 
+    /** Signing algorithm to use (default: "hmac-sha256") */
+    keyType?: KeyType;
+
     /** Optional metadata to attach to the DID document */
     metadata?: Record<string, unknown>;
 }
@@ -58,6 +150,109 @@ export interface SignOptions {
 
     /** Custom nonce (defaults to UUIDv4) */
     nonce?: string;
+
+    /** Signing algorithm (default: "hmac-sha256") */
+    keyType?: KeyType;
+}
+
+/**
+ * Options for verifying a signature
+ */
+export interface VerifyOptions {
+    /** Maximum age of the signature in ms (default: 5 minutes) */
+    maxAgeMs?: number;
+
+    /**
+     * Signing algorithm (default: "hmac-sha256")
+     * For "ed25519" the verification key is the signer's public key.
+     */
+    keyType?: KeyType;
+
+    /**
+     * Allowed clock difference for timestamps in the future, in ms (default: 30 seconds)
+     */
+    clockSkewMs?: number;
+
+    /**
+     * Store of seen nonces used to reject replayed signatures
+     * (default: one in-memory store shared by every verify call in the
+     * process, see Signer.setDefaultNonceStore; false to disable)
+     */
+    nonceStore?: NonceStore | false;
+}
+
+/**
+ * Why a signature was accepted or rejected
+ * 
+ * - "ok": valid
+ * - "expired": older than maxAgeMs
+ * - "not-yet-valid": timestamp further in the future than clockSkewMs
+ * - "bad-hash": well-formed, but does not match the message and key
+ * - "malformed": unparseable timestamp, missing fields or wrong hash length
+ * - "replayed": nonce already seen for this key
+ * - "revoked": the DID key valid at the timestamp has been revoked
+ * - "unknown-key": the DID had no key valid at the timestamp
+ */
+export type VerificationStatus =
+    | "ok"
+    | "expired"
+    | "not-yet-valid"
+    | "bad-hash"
+    | "malformed"
+    | "replayed"
+    | "revoked"
+    | "unknown-key";
+
+/**
+ * Detailed outcome of signature verification
+ */
+export type VerificationResult =
+    | {
+        ok: true;
+        status: "ok";
+        /** Signature timestamp (Unix ms) */
+        signedAt: number;
+        /** Age of the signature at verification time in ms (negative if from the future) */
+        ageMs: number;
+    }
+    | {
+        ok: false;
+        status: Exclude<VerificationStatus, "ok">;
+        /** Human-readable explanation */
+        reason: string;
+        /** Signature timestamp (Unix ms), if it could be parsed */
+        signedAt?: number;
+        /** Age of the signature at verification time in ms, if known */
+        ageMs?: number;
+    };
+
+/**
+ * Records seen signature nonces to detect replays
+ */
+export interface NonceStore {
+    /**
+     * Record a nonce if it has not been seen
+     * 
+     * @param scope - Namespace of the nonce (one per verification key)
+     * @param nonce - The signature nonce
+     * @param expiresAt - Unix time in ms after which the nonce may be forgotten
+     * @returns True if the nonce is new, false if it was already seen
+     */
+    checkAndStore(scope: string, nonce: string, expiresAt: number): boolean;
+}
+
+/**
+ * Options for saving and loading stored DIDs
+ */
+export interface StorageOptions {
+    /** Storage backend (default: the global default, else ~/.aeon/dids/) */
+    storage?: DIDStorage;
+
+    /**
+     * Passphrase for the encrypted keystore format (scrypt + AES-256-GCM).
+     * Without it, DIDs are saved as plaintext JSON and encrypted DIDs cannot be loaded.
+     */
+    passphrase?: string;
 }
 
 /**
@@ -70,9 +265,82 @@ export interface DIDStorage {
     /** Load a DID document by name */
     load(name: string): Promise<AeonDIDDocument | null>;
 
+    /**
+     * Load only what is needed to publish the DID Document (signingKey may
+     * be empty); encrypted documents are read without the passphrase.
+     * Storages without encryption can omit it.
+     */
+    loadPublic?(name: string): Promise<AeonDIDDocument | null>;
+
     /** List all stored DIDs */
     list(): Promise<AeonDIDDocument[]>;
 
     /** Delete a DID document */
     delete(name: string): Promise<boolean>;
 }
+
+/**
+ * Public key entry of a W3C DID Document
+ */
+export interface VerificationMethod {
+    /** Key identifier (e.g., "did:aeon:my-agent#key-1") */
+    id: string;
+
+    /** Key suite type */
+    type: "JsonWebKey2020";
+
+    /** DID that controls this key */
+    controller: string;
+
+    /** Public key in JWK form */
+    publicKeyJwk: {
+        kty: "OKP";
+        crv: "Ed25519";
+        /** Base64url-encoded raw public key */
+        x: string;
+    };
+
+    /** Start of the key's validity window (ISO 8601) */
+    validFrom?: string;
+
+    /**
+     * End of the validity window (ISO 8601), set once the key was rotated out.
+     * The next key starts at the same instant; a signature timestamped
+     * exactly then may come from either key.
+     */
+    validUntil?: string;
+
+    /** When the key was revoked (ISO 8601); signatures from then on are invalid */
+    revoked?: string;
+}
+
+/**
+ * W3C DID Document (https://www.w3.org/TR/did-core/)
+ * Contains only public material and is safe to share.
+ */
+export interface DIDDocument {
+    "@context": string[];
+
+    /** The DID this document describes */
+    id: string;
+
+    /** DID(s) authorized to make changes to this document */
+    controller: string;
+
+    /** Public keys associated with the DID */
+    verificationMethod: VerificationMethod[];
+
+    /** Verification method IDs usable for authentication */
+    authentication: string[];
+
+    /** When the DID was created (ISO 8601) */
+    created?: string;
+}
+
+/**
+ * Source of DID Documents used by the resolver
+ */
+export interface DIDSource {
+    /** Resolve a DID to its document, or null if this source does not know it */
+    resolve(did: string): Promise<DIDDocument | null>;
+}